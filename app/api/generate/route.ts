@@ -1,82 +1,77 @@
 import { NextResponse } from 'next/server';
-import { generateWithLogprobs, SafetyBlockError } from '@/lib/gemini';
+import {
+  CACHE_STATUS_HEADER,
+  cacheGeneration,
+  getCachedGeneration,
+} from '@/lib/cache';
+import { generateWithLogprobs, getGenerationKey } from '@/lib/generation';
+import {
+  describeGenerationError,
+  describeInvalidRequest,
+  describeRateLimit,
+} from '@/lib/errors';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { GenerateResponseBody } from '@/lib/schema';
+import { validateGenerationRequest } from '@/lib/validation';
 
 // Set maximum execution time (seconds)
 export const maxDuration = 30;
 
 export async function POST(request: Request) {
   try {
-    // Parse JSON body
-    const {
-      prompt,
-      systemInstruction,
-      maxTokens,
-      temperature,
-      topP,
-      topK,
-      numLogprobs,
-    } = await request.json();
-
-    // Validate input
-    if (!prompt || typeof prompt !== 'string') {
-      return NextResponse.json(
-        { error: 'Prompt is required and must be a string' },
-        { status: 400 }
-      );
+    // Parse and validate JSON body
+    const { options, noCache, error, fieldErrors } = validateGenerationRequest(
+      await request.json().catch(() => undefined)
+    );
+    if (error !== undefined) {
+      const { status, body } = describeInvalidRequest(error, fieldErrors);
+      return NextResponse.json(body, { status });
     }
 
-    // Basic prompt length validation
-    if (prompt.length > 1000) {
-      return NextResponse.json(
-        { error: 'Prompt too long (max 1000 characters)' },
-        { status: 400 }
-      );
+    // Serve repeated requests from the cache
+    const key = getGenerationKey(options);
+    const cached = await getCachedGeneration(key, noCache);
+
+    // Only requests that reach the provider count against the rate limits
+    if (!cached.result) {
+      const limit = await checkRateLimit(request);
+      if (!limit.allowed) {
+        const { status, body, headers } = describeRateLimit(
+          limit.scope,
+          limit.retryAfter
+        );
+        return NextResponse.json(body, { status, headers });
+      }
     }
 
-    // Call Gemini API
-    const result = await generateWithLogprobs({
-      prompt,
-      systemInstruction: systemInstruction || undefined,
-      maxTokens: maxTokens || 20,
-      temperature: temperature !== undefined ? temperature : undefined,
-      topP: topP !== undefined ? topP : undefined,
-      topK: topK !== undefined ? topK : undefined,
-      numLogprobs: numLogprobs !== undefined ? numLogprobs : undefined,
-    });
+    // Call the configured model provider on a miss
+    const result =
+      cached.result ?? (await generateWithLogprobs(options, request.signal));
+    if (!cached.result) {
+      await cacheGeneration(key, result);
+    }
 
     // Return generation + logprobs
-    return NextResponse.json({
+    const body: GenerateResponseBody = {
       success: true,
       generatedText: result.text,
+      finishReason: result.finishReason,
       tokens: result.tokens,
       logprobsByPosition: result.logprobsByPosition,
+      rawLogprobsByPosition: result.rawLogprobsByPosition,
+      chosenLogprobs: result.chosenLogprobs,
+      entropyByPosition: result.entropyByPosition,
+      residualMassByPosition: result.residualMassByPosition,
+    };
+    return NextResponse.json(body, {
+      headers: { [CACHE_STATUS_HEADER]: cached.status },
     });
   } catch (error) {
-    console.error('Generation error:', error);
-
-    // Handle safety blocks with user-friendly message
-    if (error instanceof SafetyBlockError) {
-      return NextResponse.json(
-        {
-          error: 'Content blocked by safety filter',
-          reason: error.reason,
-          userMessage:
-            'Your prompt was flagged by the safety filter. Please try a different prompt.',
-        },
-        { status: 400 }
-      );
+    if (!request.signal.aborted) {
+      console.error('Generation error:', error);
     }
 
-    // Generic error handling
-    const errorMessage =
-      error instanceof Error ? error.message : 'Unknown error';
-    return NextResponse.json(
-      {
-        error: 'Failed to generate text',
-        details:
-          process.env.NODE_ENV === 'development' ? errorMessage : undefined,
-      },
-      { status: 500 }
-    );
+    const { status, body, headers } = describeGenerationError(error);
+    return NextResponse.json(body, { status, headers });
   }
 }
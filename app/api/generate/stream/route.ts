@@ -0,0 +1,127 @@
+import { NextResponse } from 'next/server';
+import {
+  CACHE_STATUS_HEADER,
+  cacheGeneration,
+  getCachedGeneration,
+} from '@/lib/cache';
+import {
+  GenerationChunk,
+  getGenerationKey,
+  replayGeneration,
+  streamWithLogprobs,
+} from '@/lib/generation';
+import { collectPositions } from '@/lib/logprobs';
+import {
+  describeGenerationError,
+  describeInvalidRequest,
+  describeRateLimit,
+} from '@/lib/errors';
+import { checkRateLimit } from '@/lib/rate-limit';
+import { validateGenerationRequest } from '@/lib/validation';
+
+// Set maximum execution time (seconds)
+export const maxDuration = 30;
+
+/**
+ * Streams a generation as newline-delimited JSON events:
+ *   { type: 'token', token, logprobs, rawLogprobs, chosenLogprob,
+ *     entropy, residualMass }           - one per generated token
+ *   { type: 'done', finishReason }      - generation finished
+ *   { type: 'error', ...errorBody }     - generation failed mid-stream
+ */
+export async function POST(request: Request) {
+  try {
+    // Parse and validate JSON body
+    const { options, noCache, error, fieldErrors } = validateGenerationRequest(
+      await request.json().catch(() => undefined)
+    );
+    if (error !== undefined) {
+      const { status, body } = describeInvalidRequest(error, fieldErrors);
+      return NextResponse.json(body, { status });
+    }
+
+    // Replay cached generations instead of calling the provider
+    const key = getGenerationKey(options);
+    const cached = await getCachedGeneration(key, noCache);
+
+    // Only requests that reach the provider count against the rate limits
+    if (!cached.result) {
+      const limit = await checkRateLimit(request);
+      if (!limit.allowed) {
+        const { status, body, headers } = describeRateLimit(
+          limit.scope,
+          limit.retryAfter
+        );
+        return NextResponse.json(body, { status, headers });
+      }
+    }
+
+    const iterator = cached.result
+      ? replayGeneration(cached.result)
+      : streamWithLogprobs(options, request.signal);
+
+    // Wait for the first token so that failures before any output
+    // (safety blocks, bad configuration) still get a proper status code
+    let step = await iterator.next();
+
+    const encoder = new TextEncoder();
+    const encode = (event: object) =>
+      encoder.encode(JSON.stringify(event) + '\n');
+
+    // Set once the client stops reading, e.g. after abandoning the branch
+    let cancelled = false;
+
+    const stream = new ReadableStream({
+      async start(controller) {
+        const chunks: GenerationChunk[] = [];
+        try {
+          while (!step.done) {
+            chunks.push(step.value);
+            controller.enqueue(encode({ type: 'token', ...step.value }));
+            step = await iterator.next();
+          }
+          const finishReason = step.value;
+          controller.enqueue(encode({ type: 'done', finishReason }));
+
+          // Only complete generations are cached
+          if (!cached.result && chunks.length > 0) {
+            await cacheGeneration(key, {
+              text: chunks.map((c) => c.token).join(''),
+              ...collectPositions(chunks),
+              finishReason,
+            });
+          }
+        } catch (error) {
+          // Nobody is left to tell about the failure
+          if (cancelled || request.signal.aborted) return;
+
+          console.error('Generation error:', error);
+          const { body } = describeGenerationError(error);
+          controller.enqueue(encode({ type: 'error', ...body }));
+        } finally {
+          if (!cancelled) controller.close();
+        }
+      },
+      async cancel() {
+        cancelled = true;
+        // Ends the upstream call; the value passed is never read
+        await iterator.return('end-of-text');
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        'Content-Type': 'application/x-ndjson',
+        'Cache-Control': 'no-cache',
+        [CACHE_STATUS_HEADER]: cached.status,
+      },
+    });
+  } catch (error) {
+    if (!request.signal.aborted) {
+      console.error('Generation error:', error);
+    }
+
+    const { status, body, headers } = describeGenerationError(error);
+    return NextResponse.json(body, { status, headers });
+  }
+}
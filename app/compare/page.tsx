@@ -0,0 +1,429 @@
+'use client';
+
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
+import { useRouter } from 'next/navigation';
+import TokenWheel, { TokenWheelHandle } from '@/components/wheel/TokenWheel';
+import TokenLegend from '@/components/wheel/TokenLegend';
+import BuiltTextDisplay from '@/components/wheel/BuiltTextDisplay';
+import GenerationErrorNotice from '@/components/wheel/GenerationErrorNotice';
+import { LoadingState } from '@/components/wheel/LoadingState';
+import SideSettingsPanel from '@/components/compare/SideSettingsPanel';
+import DistributionDiff from '@/components/compare/DistributionDiff';
+import Header from '@/components/Header';
+import Footer from '@/components/Footer';
+import {
+  GenerationError,
+  isAbortError,
+  streamGeneration,
+  StreamedToken,
+} from '@/lib/api';
+import {
+  compareDistributions,
+  CompareSideSettings,
+  DEFAULT_COMPARE_SIDES,
+} from '@/lib/compare';
+import { STORAGE_KEYS } from '@/lib/constants';
+import { GenerationErrorCode } from '@/lib/error-codes';
+import {
+  assignWedgeColors,
+  formatTokenForSpeech,
+  stitchTokens,
+  WedgeData,
+} from '@/lib/utils';
+import {
+  DEFAULT_WHEEL_ANIMATION,
+  parseWheelAnimation,
+} from '@/lib/wheel-animation';
+
+const SIDE_LABELS = ['A', 'B'] as const;
+
+interface CompareSide {
+  settings: CompareSideSettings;
+  // Next-token distribution for the current text; null while loading
+  position: StreamedToken | null;
+  // Mirrors of the wheel's state for its legend
+  wedges: WedgeData[];
+  selectedToken: string | null;
+  isSpinning: boolean;
+}
+
+interface CompareFailure {
+  code: GenerationErrorCode;
+  message: string;
+  // Epoch milliseconds when retrying makes sense again
+  retryAt?: number;
+}
+
+function createSide(settings: CompareSideSettings): CompareSide {
+  return {
+    settings,
+    position: null,
+    wedges: [],
+    selectedToken: null,
+    isSpinning: false,
+  };
+}
+
+export default function ComparePage() {
+  const router = useRouter();
+
+  // Prompt loaded from sessionStorage
+  const [prompt, setPrompt] = useState<string | null>(null);
+  const [selectedTokens, setSelectedTokens] = useState<string[]>([]);
+  const [sides, setSides] = useState(() =>
+    DEFAULT_COMPARE_SIDES.map(createSide)
+  );
+  const [failure, setFailure] = useState<CompareFailure | null>(null);
+  // Chosen tokens, read out by screen readers
+  const [announcement, setAnnouncement] = useState('');
+  const [wheelAnimation, setWheelAnimation] = useState(DEFAULT_WHEEL_ANIMATION);
+
+  // Prevent double-initialization in React strict mode
+  const hasInitialized = useRef(false);
+
+  // One wheel per side, set through callback refs
+  const wheelRefs = useRef<(TokenWheelHandle | null)[]>([]);
+
+  // One request per side; a newer one aborts the older
+  const controllersRef = useRef<(AbortController | null)[]>([null, null]);
+
+  // Refs to access latest state in callbacks
+  const promptRef = useRef(prompt);
+  const selectedTokensRef = useRef(selectedTokens);
+  const sidesRef = useRef(sides);
+  promptRef.current = prompt;
+  selectedTokensRef.current = selectedTokens;
+  sidesRef.current = sides;
+
+  const updateSide = useCallback(
+    (index: number, update: Partial<CompareSide>) => {
+      setSides((current) => {
+        // Keep the same array when nothing changed, so the wheels' change
+        // notifications don't re-render the page for nothing
+        const side = current[index];
+        const changed = (Object.keys(update) as (keyof CompareSide)[]).some(
+          (key) => side[key] !== update[key]
+        );
+        return changed
+          ? current.map((s, i) => (i === index ? { ...s, ...update } : s))
+          : current;
+      });
+    },
+    []
+  );
+
+  // Fetch the next-token distribution for one side
+  const loadSide = useCallback(
+    async (index: number, text: string, settings: CompareSideSettings) => {
+      controllersRef.current[index]?.abort();
+      const controller = new AbortController();
+      controllersRef.current[index] = controller;
+      setSides((current) =>
+        current.map((side, i) => (i === index ? createSide(settings) : side))
+      );
+
+      try {
+        const chunks: StreamedToken[] = [];
+        await streamGeneration(
+          {
+            prompt: text,
+            maxTokens: 1,
+            temperature: settings.temperature,
+            systemInstruction: settings.systemInstruction,
+            provider: settings.provider,
+            model: settings.model || undefined,
+          },
+          (chunk) => chunks.push(chunk),
+          controller.signal
+        );
+        if (chunks.length === 0) {
+          throw new GenerationError('No content generated', 'INTERNAL');
+        }
+        updateSide(index, { position: chunks[0] });
+      } catch (err) {
+        if (isAbortError(err)) return;
+        setFailure(
+          err instanceof GenerationError
+            ? {
+                code: err.code,
+                message: `${SIDE_LABELS[index]}: ${err.message}`,
+                retryAt:
+                  err.retryAfter !== undefined
+                    ? Date.now() + err.retryAfter * 1000
+                    : undefined,
+              }
+            : {
+                code: 'INTERNAL',
+                message: err instanceof Error ? err.message : 'Unknown error',
+              }
+        );
+      }
+    },
+    [updateSide]
+  );
+
+  // Load both sides for the given tokens
+  const loadBoth = useCallback(
+    (tokens: string[]) => {
+      const text = stitchTokens(tokens, promptRef.current || '');
+      setFailure(null);
+      sidesRef.current.forEach((side, index) =>
+        loadSide(index, text, side.settings)
+      );
+    },
+    [loadSide]
+  );
+
+  // Load prompt from sessionStorage and settings from localStorage on mount
+  useEffect(() => {
+    if (typeof window === 'undefined' || hasInitialized.current) return;
+    hasInitialized.current = true;
+
+    const savedPrompt = sessionStorage.getItem(STORAGE_KEYS.PROMPT);
+    if (!savedPrompt) {
+      // No prompt, redirect to home
+      router.replace('/');
+      return;
+    }
+
+    // Both sides start from the system instruction set on the home page
+    const savedInstruction = localStorage.getItem(
+      STORAGE_KEYS.SYSTEM_INSTRUCTION
+    );
+    const initialSettings = DEFAULT_COMPARE_SIDES.map((settings) =>
+      savedInstruction !== null
+        ? { ...settings, systemInstruction: savedInstruction }
+        : settings
+    );
+
+    setWheelAnimation(
+      parseWheelAnimation(localStorage.getItem(STORAGE_KEYS.WHEEL_ANIMATION))
+    );
+    setPrompt(savedPrompt);
+    initialSettings.forEach((settings, index) =>
+      loadSide(index, savedPrompt, settings)
+    );
+  }, [router, loadSide]);
+
+  // Stop loading when the user leaves the page
+  useEffect(() => {
+    const controllers = controllersRef.current;
+    return () => controllers.forEach((controller) => controller?.abort());
+  }, []);
+
+  const [left, right] = sides;
+  const isReady = left.position !== null && right.position !== null;
+  const isBusy = sides.some(
+    (side) => side.isSpinning || side.selectedToken !== null
+  );
+
+  const comparison = useMemo(
+    () =>
+      left.position && right.position
+        ? compareDistributions(left.position.logprobs, right.position.logprobs)
+        : null,
+    [left.position, right.position]
+  );
+
+  // Same token, same color on both wheels
+  const colors = useMemo(
+    () =>
+      comparison ? assignWedgeColors(comparison.rows.map((r) => r.token)) : {},
+    [comparison]
+  );
+
+  // A token picked on either side advances both
+  const handleTokenSelect = useCallback(
+    (token: string) => {
+      const tokens = [...selectedTokensRef.current, token];
+      setSelectedTokens(tokens);
+      setAnnouncement(
+        `Added ${formatTokenForSpeech(token)} as token ${tokens.length}`
+      );
+      loadBoth(tokens);
+    },
+    [loadBoth]
+  );
+
+  // Undo the last token on both sides
+  const handleUndo = useCallback(() => {
+    const tokens = selectedTokensRef.current.slice(0, -1);
+    setSelectedTokens(tokens);
+    loadBoth(tokens);
+  }, [loadBoth]);
+
+  // Go back to the position a token was picked at, on both sides
+  const handleRewind = useCallback(
+    (index: number) => {
+      const tokens = selectedTokensRef.current.slice(0, index);
+      setSelectedTokens(tokens);
+      loadBoth(tokens);
+    },
+    [loadBoth]
+  );
+
+  // Re-load one side with new settings
+  const handleApplySettings = useCallback(
+    (index: number, settings: CompareSideSettings) => {
+      const text = stitchTokens(
+        selectedTokensRef.current,
+        promptRef.current || ''
+      );
+      setFailure(null);
+      loadSide(index, text, settings);
+    },
+    [loadSide]
+  );
+
+  // Handlers for each side, created once so the wheels' change
+  // notifications only fire when something actually changed
+  const sideHandlers = useMemo(
+    () =>
+      SIDE_LABELS.map((_, index) => ({
+        setWheel: (wheel: TokenWheelHandle | null) => {
+          wheelRefs.current[index] = wheel;
+        },
+        onSelectedTokenChange: (selectedToken: string | null) =>
+          updateSide(index, { selectedToken }),
+        onWedgesChange: (wedges: WedgeData[]) => updateSide(index, { wedges }),
+        onSpinningChange: (isSpinning: boolean) =>
+          updateSide(index, { isSpinning }),
+        onApply: (settings: CompareSideSettings) =>
+          handleApplySettings(index, settings),
+        onLegendClick: (token: string) =>
+          wheelRefs.current[index]?.triggerWedgeClick(token),
+      })),
+    [updateSide, handleApplySettings]
+  );
+
+  // Re-load whichever sides failed
+  const handleRetry = useCallback(() => {
+    const text = stitchTokens(
+      selectedTokensRef.current,
+      promptRef.current || ''
+    );
+    setFailure(null);
+    sidesRef.current.forEach((side, index) => {
+      if (!side.position) loadSide(index, text, side.settings);
+    });
+  }, [loadSide]);
+
+  // Take the text so far back to the home page to change it
+  const handleEditPrompt = useCallback(() => {
+    sessionStorage.setItem(
+      STORAGE_KEYS.PROMPT,
+      stitchTokens(selectedTokensRef.current, promptRef.current || '')
+    );
+    router.push('/');
+  }, [router]);
+
+  // Reset and go back to home
+  const handleReset = useCallback(() => {
+    sessionStorage.removeItem(STORAGE_KEYS.PROMPT);
+    router.push('/');
+  }, [router]);
+
+  return (
+    <div className="mx-auto min-h-screen max-w-6xl bg-zinc-50 px-4 dark:bg-zinc-950">
+      <Header />
+
+      <div role="status" aria-live="polite" className="sr-only">
+        {announcement}
+      </div>
+
+      <div className="flex flex-col gap-4">
+        {prompt === null ? (
+          <LoadingState />
+        ) : (
+          <>
+            {/* Error Display */}
+            {failure && (
+              <GenerationErrorNotice
+                key={failure.retryAt}
+                code={failure.code}
+                message={failure.message}
+                retryAt={failure.retryAt}
+                onRetry={handleRetry}
+                onEditPrompt={handleEditPrompt}
+                onDismiss={() => setFailure(null)}
+              />
+            )}
+
+            <BuiltTextDisplay
+              prompt={prompt}
+              selectedTokens={selectedTokens}
+              showUndo={selectedTokens.length > 0 && !isBusy}
+              onUndo={handleUndo}
+              onTokenClick={isBusy ? undefined : handleRewind}
+              onReset={handleReset}
+            />
+
+            {/* One column per side */}
+            <div className="grid gap-4 md:grid-cols-2">
+              {sides.map((side, index) => (
+                <div key={index} className="flex flex-col gap-4">
+                  <SideSettingsPanel
+                    label={`Side ${SIDE_LABELS[index]}`}
+                    settings={side.settings}
+                    onApply={sideHandlers[index].onApply}
+                    disabled={isBusy}
+                  />
+
+                  {isReady && side.position ? (
+                    <>
+                      <TokenWheel
+                        ref={sideHandlers[index].setWheel}
+                        logprobs={side.position.logprobs}
+                        colors={colors}
+                        chosenToken={side.position.token}
+                        animation={wheelAnimation}
+                        onTokenSelect={handleTokenSelect}
+                        onSelectedTokenChange={
+                          sideHandlers[index].onSelectedTokenChange
+                        }
+                        onWedgesChange={sideHandlers[index].onWedgesChange}
+                        onSpinningChange={sideHandlers[index].onSpinningChange}
+                        // Only one wheel may pick the next token
+                        disabled={sides.some(
+                          (other, i) =>
+                            i !== index &&
+                            (other.isSpinning || other.selectedToken !== null)
+                        )}
+                      />
+                      <TokenLegend
+                        wedges={side.wedges}
+                        entropy={side.position.entropy}
+                        residualMass={side.position.residualMass}
+                        selectedToken={side.selectedToken}
+                        onTokenClick={sideHandlers[index].onLegendClick}
+                        disabled={isBusy}
+                      />
+                    </>
+                  ) : (
+                    !failure && (
+                      <LoadingState message="Loading distribution..." />
+                    )
+                  )}
+                </div>
+              ))}
+            </div>
+
+            {/* How the two distributions differ */}
+            {comparison && (
+              <DistributionDiff
+                comparison={comparison}
+                colors={colors}
+                leftLabel={SIDE_LABELS[0]}
+                rightLabel={SIDE_LABELS[1]}
+                onTokenClick={handleTokenSelect}
+                disabled={isBusy}
+              />
+            )}
+          </>
+        )}
+      </div>
+
+      <Footer />
+    </div>
+  );
+}
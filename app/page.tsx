@@ -4,12 +4,44 @@ import { useState, useEffect, useRef } from 'react';
 import { useRouter } from 'next/navigation';
 import PromptInput from '@/components/PromptInput';
 import SettingsPanel from '@/components/SettingsPanel';
+import SessionImport from '@/components/SessionImport';
 import Header from '@/components/Header';
 import {
   DEFAULT_TEMPERATURE,
   DEFAULT_SYSTEM_INSTRUCTION,
+  DEFAULT_MODEL_SOURCE,
+  ModelSource,
   STORAGE_KEYS,
 } from '@/lib/constants';
+import {
+  DEFAULT_NGRAM_SETTINGS,
+  NgramSettings,
+  parseNgramSettings,
+} from '@/lib/ngram';
+import {
+  DEFAULT_PREFETCH_SETTINGS,
+  parsePrefetchSettings,
+  PrefetchSettings,
+} from '@/lib/prefetch';
+import {
+  DEFAULT_GENERATION_PARAMS,
+  GenerationParams,
+  loadUserPresets,
+  parseGenerationParams,
+  PresetValues,
+  SamplingPreset,
+} from '@/lib/presets';
+import { WheelSession } from '@/lib/session';
+import {
+  DEFAULT_STOP_SETTINGS,
+  parseStopSettings,
+  StopSettings,
+} from '@/lib/stopping';
+import {
+  DEFAULT_WHEEL_ANIMATION,
+  parseWheelAnimation,
+  WheelAnimationSettings,
+} from '@/lib/wheel-animation';
 import Footer from '@/components/Footer';
 
 // Helper to get initial temperature from localStorage
@@ -26,6 +58,61 @@ function getInitialSystemInstruction(): string {
   return saved !== null ? saved : DEFAULT_SYSTEM_INSTRUCTION;
 }
 
+// Helper to get initial model source from localStorage
+function getInitialModelSource(): ModelSource {
+  if (typeof window === 'undefined') return DEFAULT_MODEL_SOURCE;
+  const saved = localStorage.getItem(STORAGE_KEYS.MODEL_SOURCE);
+  return saved === 'ngram' ? 'ngram' : DEFAULT_MODEL_SOURCE;
+}
+
+// Helper to get initial chat mode from localStorage
+function getInitialChatMode(): boolean {
+  if (typeof window === 'undefined') return false;
+  return localStorage.getItem(STORAGE_KEYS.CHAT_MODE) === 'true';
+}
+
+// Helper to get initial n-gram settings from localStorage
+function getInitialNgramSettings(): NgramSettings {
+  if (typeof window === 'undefined') return DEFAULT_NGRAM_SETTINGS;
+  return parseNgramSettings(localStorage.getItem(STORAGE_KEYS.NGRAM_SETTINGS));
+}
+
+// Helper to get initial prefetch settings from localStorage
+function getInitialPrefetchSettings(): PrefetchSettings {
+  if (typeof window === 'undefined') return DEFAULT_PREFETCH_SETTINGS;
+  return parsePrefetchSettings(
+    localStorage.getItem(STORAGE_KEYS.PREFETCH_SETTINGS)
+  );
+}
+
+// Helper to get initial length and stop settings from localStorage
+function getInitialStopSettings(): StopSettings {
+  if (typeof window === 'undefined') return DEFAULT_STOP_SETTINGS;
+  return parseStopSettings(localStorage.getItem(STORAGE_KEYS.STOP_SETTINGS));
+}
+
+// Helper to get initial sampling parameters from localStorage
+function getInitialGenerationParams(): GenerationParams {
+  if (typeof window === 'undefined') return DEFAULT_GENERATION_PARAMS;
+  return parseGenerationParams(
+    localStorage.getItem(STORAGE_KEYS.GENERATION_PARAMS)
+  );
+}
+
+// Helper to get the user's saved presets from localStorage
+function getInitialUserPresets(): SamplingPreset[] {
+  if (typeof window === 'undefined') return [];
+  return loadUserPresets(localStorage.getItem(STORAGE_KEYS.SAMPLING_PRESETS));
+}
+
+// Helper to get initial wheel animation settings from localStorage
+function getInitialWheelAnimation(): WheelAnimationSettings {
+  if (typeof window === 'undefined') return DEFAULT_WHEEL_ANIMATION;
+  return parseWheelAnimation(
+    localStorage.getItem(STORAGE_KEYS.WHEEL_ANIMATION)
+  );
+}
+
 // Helper to get initial prompt (check sessionStorage for "Continue from here" flow)
 function getInitialPrompt(): string {
   if (typeof window === 'undefined') return 'The cat sat on the';
@@ -48,6 +135,20 @@ export default function Home() {
   const [systemInstruction, setSystemInstruction] = useState(
     getInitialSystemInstruction
   );
+  const [modelSource, setModelSource] = useState(getInitialModelSource);
+  const [chatMode, setChatMode] = useState(getInitialChatMode);
+  const [ngramSettings, setNgramSettings] = useState(getInitialNgramSettings);
+  const [prefetchSettings, setPrefetchSettings] = useState(
+    getInitialPrefetchSettings
+  );
+  const [stopSettings, setStopSettings] = useState(getInitialStopSettings);
+  const [generationParams, setGenerationParams] = useState(
+    getInitialGenerationParams
+  );
+  const [userPresets, setUserPresets] = useState(getInitialUserPresets);
+  const [wheelAnimation, setWheelAnimation] = useState(
+    getInitialWheelAnimation
+  );
   const [showSettings, setShowSettings] = useState(false);
 
   // Clear sessionStorage prompt after mount (in case lazy init didn't run on client)
@@ -71,10 +172,111 @@ export default function Home() {
     }
   }, [systemInstruction]);
 
+  // Save model source to localStorage when it changes
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(STORAGE_KEYS.MODEL_SOURCE, modelSource);
+    }
+  }, [modelSource]);
+
+  // Save chat mode to localStorage when it changes
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(STORAGE_KEYS.CHAT_MODE, String(chatMode));
+    }
+  }, [chatMode]);
+
+  // Save n-gram settings to localStorage when they change
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(
+        STORAGE_KEYS.NGRAM_SETTINGS,
+        JSON.stringify(ngramSettings)
+      );
+    }
+  }, [ngramSettings]);
+
+  // Save prefetch settings to localStorage when they change
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(
+        STORAGE_KEYS.PREFETCH_SETTINGS,
+        JSON.stringify(prefetchSettings)
+      );
+    }
+  }, [prefetchSettings]);
+
+  // Save length and stop settings to localStorage when they change
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(
+        STORAGE_KEYS.STOP_SETTINGS,
+        JSON.stringify(stopSettings)
+      );
+    }
+  }, [stopSettings]);
+
+  // Save sampling parameters to localStorage when they change
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(
+        STORAGE_KEYS.GENERATION_PARAMS,
+        JSON.stringify(generationParams)
+      );
+    }
+  }, [generationParams]);
+
+  // Save the user's presets to localStorage when they change
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(
+        STORAGE_KEYS.SAMPLING_PRESETS,
+        JSON.stringify(userPresets)
+      );
+    }
+  }, [userPresets]);
+
+  // Save wheel animation settings to localStorage when they change
+  useEffect(() => {
+    if (typeof window !== 'undefined') {
+      localStorage.setItem(
+        STORAGE_KEYS.WHEEL_ANIMATION,
+        JSON.stringify(wheelAnimation)
+      );
+    }
+  }, [wheelAnimation]);
+
+  // Apply a preset - it sets temperature and length along with sampling
+  const handleApplyPreset = ({
+    temperature,
+    maxTokens,
+    ...params
+  }: PresetValues) => {
+    setTemperature(temperature);
+    setGenerationParams(params);
+    setStopSettings((current) => ({ ...current, maxTokens }));
+  };
+
   // Handle start - save prompt and navigate to wheel
   const handleStart = () => {
     if (!prompt.trim()) return;
     sessionStorage.setItem(STORAGE_KEYS.PROMPT, prompt);
+    // A new prompt starts a new session
+    localStorage.removeItem(STORAGE_KEYS.SESSION);
+    router.push('/wheel');
+  };
+
+  // Handle compare - same prompt, two settings side by side
+  const handleCompare = () => {
+    if (!prompt.trim()) return;
+    sessionStorage.setItem(STORAGE_KEYS.PROMPT, prompt);
+    router.push('/compare');
+  };
+
+  // Handle import - the wheel page resumes the saved session. Throws if the
+  // session does not fit in localStorage, for SessionImport to report
+  const handleImport = (session: WheelSession) => {
+    localStorage.setItem(STORAGE_KEYS.SESSION, JSON.stringify(session));
     router.push('/wheel');
   };
 
@@ -88,8 +290,27 @@ export default function Home() {
           prompt={prompt}
           onPromptChange={setPrompt}
           onStart={handleStart}
+          onCompare={modelSource === 'api' ? handleCompare : undefined}
+          chatMode={modelSource === 'api' && chatMode}
         />
         <SettingsPanel
+          modelSource={modelSource}
+          onModelSourceChange={setModelSource}
+          chatMode={chatMode}
+          onChatModeChange={setChatMode}
+          ngramSettings={ngramSettings}
+          onNgramSettingsChange={setNgramSettings}
+          prefetchSettings={prefetchSettings}
+          onPrefetchSettingsChange={setPrefetchSettings}
+          stopSettings={stopSettings}
+          onStopSettingsChange={setStopSettings}
+          generationParams={generationParams}
+          onGenerationParamsChange={setGenerationParams}
+          userPresets={userPresets}
+          onUserPresetsChange={setUserPresets}
+          onApplyPreset={handleApplyPreset}
+          wheelAnimation={wheelAnimation}
+          onWheelAnimationChange={setWheelAnimation}
           temperature={temperature}
           onTemperatureChange={setTemperature}
           systemInstruction={systemInstruction}
@@ -97,6 +318,7 @@ export default function Home() {
           isOpen={showSettings}
           onToggle={() => setShowSettings(!showSettings)}
         />
+        <SessionImport onImport={handleImport} />
       </div>
 
       <Footer />
@@ -1,72 +1,239 @@
 'use client';
 
-import { useState, useCallback, useRef, useEffect } from 'react';
+import { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { useRouter } from 'next/navigation';
 import TokenWheel, { TokenWheelHandle } from '@/components/wheel/TokenWheel';
 import TokenLegend from '@/components/wheel/TokenLegend';
 import BuiltTextDisplay from '@/components/wheel/BuiltTextDisplay';
 import CompletionBanner from '@/components/wheel/CompletionBanner';
+import ChatTranscript from '@/components/wheel/ChatTranscript';
+import ChatComposer from '@/components/wheel/ChatComposer';
 import Header from '@/components/Header';
-import { stitchToken, stitchTokens, WedgeData } from '@/lib/utils';
+import SamplingControls from '@/components/wheel/SamplingControls';
+import AutoplayControls from '@/components/wheel/AutoplayControls';
+import BranchTree from '@/components/wheel/BranchTree';
+import SessionActions from '@/components/wheel/SessionActions';
+import GenerationErrorNotice from '@/components/wheel/GenerationErrorNotice';
+import {
+  assignWedgeColors,
+  formatTokenForSpeech,
+  stitchToken,
+  stitchTokens,
+  WedgeData,
+} from '@/lib/utils';
+import {
+  GenerationError,
+  isAbortError,
+  streamGeneration,
+  StreamedToken,
+} from '@/lib/api';
+import {
+  AUTOPLAY_SPEEDS,
+  AutoplaySettings,
+  DEFAULT_AUTOPLAY_SETTINGS,
+  parseAutoplaySettings,
+} from '@/lib/autoplay';
+import { GenerationErrorCode } from '@/lib/error-codes';
+import { TokenChoice } from '@/lib/heatmap';
+import { collectPositions, getPosition } from '@/lib/logprobs';
+import { ChatMessage, FinishReason } from '@/lib/providers/types';
+import {
+  addBranch,
+  createExplorationTree,
+  ExplorationTree,
+  findBranch,
+  getBranchPath,
+  getBranchSteps,
+  getBranchTokens,
+  moveToNode,
+} from '@/lib/exploration';
 import {
   DEFAULT_TEMPERATURE,
   DEFAULT_SYSTEM_INSTRUCTION,
+  DEFAULT_CHAT_SYSTEM_INSTRUCTION,
+  DEFAULT_MODEL_SOURCE,
+  GENERATION_LIMITS,
+  ModelSource,
+  SpinMode,
   STORAGE_KEYS,
 } from '@/lib/constants';
+import { DEFAULT_NGRAM_CORPUS } from '@/lib/corpus';
+import {
+  DEFAULT_NGRAM_SETTINGS,
+  generateWithNgram,
+  parseNgramSettings,
+  trainNgramModel,
+} from '@/lib/ngram';
+import { createSeededRandom, hashString } from '@/lib/random';
+import {
+  createSession,
+  decodeSessionFragment,
+  parseSession,
+  restoreSessionTree,
+  SavedGeneration,
+  SessionSettings,
+  WheelSession,
+  withoutCorpus,
+} from '@/lib/session';
+import {
+  createPrefetcher,
+  DEFAULT_PREFETCH_SETTINGS,
+  parsePrefetchSettings,
+} from '@/lib/prefetch';
+import {
+  DEFAULT_GENERATION_PARAMS,
+  parseGenerationParams,
+} from '@/lib/presets';
+import {
+  DEFAULT_WHEEL_ANIMATION,
+  parseWheelAnimation,
+} from '@/lib/wheel-animation';
+import {
+  applyStopConditions,
+  DEFAULT_STOP_SETTINGS,
+  parseStopSettings,
+} from '@/lib/stopping';
+import {
+  applySamplingControls,
+  DEFAULT_SAMPLING_CONTROLS,
+  hasActiveSamplingControls,
+  parseSamplingControls,
+  SamplingControls as SamplingControlsValue,
+} from '@/lib/sampling';
 import Footer from '@/components/Footer';
-import ErrorDisplay from '@/components/wheel/ErrorDisplay';
 import { LoadingState } from '@/components/wheel/LoadingState';
 
-interface GenerationData {
-  id: number;
-  tokens: string[];
-  logprobsByPosition: Record<string, number>[];
+interface GenerationData extends SavedGeneration {
+  // False while tokens are still streaming in
+  done: boolean;
 }
 
 let generationIdCounter = 0;
 
 type AppState =
   | { type: 'loading' }
-  | { type: 'spinning'; generation: GenerationData; position: number }
-  | { type: 'complete' };
-
-type UndoEntry = {
-  type: 'normal' | 'ghost';
-  previousGeneration: GenerationData;
-  previousPosition: number;
-};
-
-interface PendingRegeneration {
-  token: string;
-  newBuiltText: string;
-  newSelectedTokens: string[];
-  promise: Promise<GenerationData | null>;
-  resolved: boolean;
-  result: GenerationData | null;
-  error: string | null;
+  | {
+      type: 'spinning';
+      generation: GenerationData;
+      position: number;
+      // Changes on every navigation, so the wheel starts fresh each visit
+      visit: number;
+    }
+  | { type: 'complete'; finishReason?: FinishReason };
+
+// A request that failed, kept so it can be sent again
+interface FailedRequest {
+  // The text the model was asked to continue
+  text: string;
+  // The node and token the request branched from; absent for the root
+  branch?: { parentId: number; token: string };
+}
+
+interface GenerationFailure {
+  code: GenerationErrorCode;
+  message: string;
+  // Epoch milliseconds when retrying makes sense again
+  retryAt?: number;
+  // Absent when there is nothing to retry, e.g. a stream that broke part-way
+  request?: FailedRequest;
+}
+
+/**
+ * Classifies an error from a generation request for the error notice.
+ */
+function describeFailure(
+  err: unknown,
+  request?: FailedRequest
+): GenerationFailure {
+  if (err instanceof GenerationError) {
+    return {
+      code: err.code,
+      message: err.message,
+      retryAt:
+        err.retryAfter !== undefined
+          ? Date.now() + err.retryAfter * 1000
+          : undefined,
+      request,
+    };
+  }
+  return {
+    code: 'INTERNAL',
+    message: err instanceof Error ? err.message : 'Unknown error',
+    request,
+  };
 }
 
 export default function WheelPage() {
   const router = useRouter();
 
-  // Prompt loaded from sessionStorage
+  // Prompt loaded from sessionStorage; in chat mode, the latest user message
   const [prompt, setPrompt] = useState<string | null>(null);
 
+  // Chat mode: the finished turns before the prompt; null when continuing text
+  const [chatHistory, setChatHistory] = useState<ChatMessage[] | null>(null);
+
   // Settings loaded from localStorage (read-only on this page)
   const [temperature, setTemperature] = useState(DEFAULT_TEMPERATURE);
   const [systemInstruction, setSystemInstruction] = useState(
     DEFAULT_SYSTEM_INSTRUCTION
   );
+  const [modelSource, setModelSource] =
+    useState<ModelSource>(DEFAULT_MODEL_SOURCE);
+  const [ngramSettings, setNgramSettings] = useState(DEFAULT_NGRAM_SETTINGS);
+  const [stopSettings, setStopSettings] = useState(DEFAULT_STOP_SETTINGS);
+  const [generationParams, setGenerationParams] = useState(
+    DEFAULT_GENERATION_PARAMS
+  );
+
+  // Train the local n-gram model only when it is in use
+  const ngramModel = useMemo(
+    () =>
+      modelSource === 'ngram'
+        ? trainNgramModel(ngramSettings.corpus ?? DEFAULT_NGRAM_CORPUS, {
+            order: ngramSettings.order,
+            level: ngramSettings.level,
+          })
+        : null,
+    [modelSource, ngramSettings]
+  );
 
   // Wheel state
   const [builtText, setBuiltText] = useState('');
   const [selectedTokens, setSelectedTokens] = useState<string[]>([]);
   const [appState, setAppState] = useState<AppState>({ type: 'loading' });
-  const [error, setError] = useState<string | null>(null);
-  const [undoStack, setUndoStack] = useState<UndoEntry[]>([]);
-  const [pendingRegen, setPendingRegen] = useState<PendingRegeneration | null>(
+  const [failure, setFailure] = useState<GenerationFailure | null>(null);
+  // Chosen tokens, read out by screen readers
+  const [announcement, setAnnouncement] = useState('');
+  const [tree, setTree] = useState<ExplorationTree<GenerationData> | null>(
     null
   );
+  const [showBranchTree, setShowBranchTree] = useState(false);
+
+  // The node last rewound from, whose path stays visible ahead of the cursor
+  // and is followed by redo
+  const [rewoundFromId, setRewoundFromId] = useState<number | null>(null);
+
+  // Latest snapshot of every generation, including ones still streaming
+  const generationsRef = useRef(new Map<number, GenerationData>());
+  // A prefetch can be aborted while it streams, unless a branch of the
+  // tree has taken it over
+  const canAbortPrefetch = useCallback(
+    (gen: GenerationData) =>
+      !(generationsRef.current.get(gen.id)?.done ?? true) &&
+      !treeRef.current?.nodes.some((node) => node.generation.id === gen.id),
+    []
+  );
+
+  // Continuations generated ahead of time for alternative wedges. Once the
+  // rate limit is hit, prefetching stops so it can't starve real picks
+  const prefetchStoppedRef = useRef(false);
+  const [initialPrefetcher] = useState(() =>
+    createPrefetcher(canAbortPrefetch)
+  );
+  const prefetcherRef = useRef(initialPrefetcher);
+  const [prefetchSettings, setPrefetchSettings] = useState(
+    DEFAULT_PREFETCH_SETTINGS
+  );
 
   // Prevent double-initialization in React strict mode
   const hasInitialized = useRef(false);
@@ -80,19 +247,46 @@ export default function WheelPage() {
     null
   );
 
+  // Client-side sampling controls that re-shape the wheel
+  const [samplingControls, setSamplingControls] = useState(
+    DEFAULT_SAMPLING_CONTROLS
+  );
+  const [showSamplingControls, setShowSamplingControls] = useState(false);
+  const [isWheelSpinning, setIsWheelSpinning] = useState(false);
+
+  // Draw the mass outside the top candidates as an "other" wedge
+  const [showResidual, setShowResidual] = useState(false);
+
+  // True spin mode draws from the wheel with a seedable random source
+  const [spinMode, setSpinMode] = useState<SpinMode>('replay');
+  const [spinSeed, setSpinSeed] = useState(0);
+  const spinRandomRef = useRef(createSeededRandom(0));
+  const drawSpinRandom = useCallback(() => spinRandomRef.current(), []);
+
+  // How the wheel spins, set on the home page
+  const [wheelAnimation, setWheelAnimation] = useState(DEFAULT_WHEEL_ANIMATION);
+
+  // Autoplay spins and accepts every wheel until paused
+  const [isAutoplaying, setIsAutoplaying] = useState(false);
+  const [autoplaySettings, setAutoplaySettings] = useState(
+    DEFAULT_AUTOPLAY_SETTINGS
+  );
+  // The unlikely token autoplay last paused itself on
+  const [autoplayPausedOn, setAutoplayPausedOn] = useState<string | null>(null);
+
   // Refs to access latest state in callbacks
   const appStateRef = useRef(appState);
   const selectedTokensRef = useRef(selectedTokens);
   const builtTextRef = useRef(builtText);
-  const undoStackRef = useRef(undoStack);
+  const treeRef = useRef(tree);
   const promptRef = useRef(prompt);
-  const pendingRegenRef = useRef(pendingRegen);
+  const chatHistoryRef = useRef(chatHistory);
   appStateRef.current = appState;
   selectedTokensRef.current = selectedTokens;
   builtTextRef.current = builtText;
-  undoStackRef.current = undoStack;
+  treeRef.current = tree;
   promptRef.current = prompt;
-  pendingRegenRef.current = pendingRegen;
+  chatHistoryRef.current = chatHistory;
 
   // Extract generation data and position from state
   const generation = appState.type === 'spinning' ? appState.generation : null;
@@ -101,83 +295,376 @@ export default function WheelPage() {
   const currentChosenToken = generation?.tokens[currentPosition] ?? '';
   const currentLogprobs =
     generation?.logprobsByPosition[currentPosition] ?? null;
+  const currentEntropy = generation?.entropyByPosition[currentPosition];
+  const currentResidualMass =
+    generation?.residualMassByPosition[currentPosition] ?? 0;
+
+  // The residual only makes sense against the model's own distribution,
+  // not one the sampling controls have re-shaped
+  const wheelResidualMass =
+    showResidual && !hasActiveSamplingControls(samplingControls)
+      ? currentResidualMass
+      : 0;
+
+  // Keep wedge colors fixed while the distribution is re-shaped
+  const currentColors = useMemo(
+    () =>
+      currentLogprobs
+        ? assignWedgeColors(
+            Object.keys(currentLogprobs).sort(
+              (a, b) => currentLogprobs[b] - currentLogprobs[a]
+            )
+          )
+        : undefined,
+    [currentLogprobs]
+  );
 
-  // Generate new tokens from the API
-  const generate = useCallback(
-    async (inputPrompt: string) => {
-      setAppState({ type: 'loading' });
-      setError(null);
+  const reshapedLogprobs = useMemo(
+    () =>
+      currentLogprobs
+        ? applySamplingControls(currentLogprobs, samplingControls)
+        : null,
+    [currentLogprobs, samplingControls]
+  );
 
-      try {
-        const response = await fetch('/api/generate', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            prompt: inputPrompt,
-            maxTokens: 50,
-            temperature,
-            systemInstruction,
-          }),
+  // If the model's choice was cut off, land on the most likely remaining token
+  const isChosenTokenCut =
+    reshapedLogprobs !== null && !(currentChosenToken in reshapedLogprobs.kept);
+  const wheelChosenToken =
+    reshapedLogprobs && isChosenTokenCut
+      ? Object.keys(reshapedLogprobs.kept).reduce((best, token) =>
+          reshapedLogprobs.kept[token] > reshapedLogprobs.kept[best]
+            ? token
+            : best
+        )
+      : currentChosenToken;
+
+  const wheelVisitRef = useRef(0);
+
+  // Show a generation on the wheel, using its latest streamed snapshot
+  const showGeneration = useCallback(
+    (gen: GenerationData, position: number) => {
+      const latest = generationsRef.current.get(gen.id) ?? gen;
+      if (latest.done && position >= latest.tokens.length) {
+        setAppState({ type: 'complete', finishReason: latest.finishReason });
+      } else {
+        setAppState({
+          type: 'spinning',
+          generation: latest,
+          position,
+          visit: ++wheelVisitRef.current,
         });
+      }
+    },
+    []
+  );
 
-        const data = await response.json();
+  // Record a streamed update and refresh the wheel if it is showing it
+  const updateGeneration = useCallback((gen: GenerationData) => {
+    generationsRef.current.set(gen.id, gen);
+    setAppState((current) => {
+      if (current.type !== 'spinning' || current.generation.id !== gen.id) {
+        return current;
+      }
+      if (gen.done && current.position >= gen.tokens.length) {
+        return { type: 'complete', finishReason: gen.finishReason };
+      }
+      return { ...current, generation: gen };
+    });
+  }, []);
 
-        if (!response.ok) {
-          const errorMsg =
-            data.userMessage || data.error || 'Generation failed';
-          const details = data.details ? ` (${data.details})` : '';
-          throw new Error(errorMsg + details);
-        }
+  // The distribution behind every picked token, for the heatmap. A streamed
+  // generation may have grown since its node was added, so the latest
+  // snapshot is used
+  const tokenChoices = useMemo<TokenChoice[] | undefined>(() => {
+    if (!tree) return undefined;
+    return getBranchSteps(tree, tree.currentId).map(({ token, from }) => {
+      const gen =
+        generationsRef.current.get(from.generation.id) ?? from.generation;
+      return {
+        token,
+        distribution: gen.logprobsByPosition[from.position] ?? {},
+        modelToken: gen.tokens[from.position] ?? token,
+      };
+    });
+  }, [tree]);
+
+  // Settings stored with the session
+  const sessionSettings = useMemo<SessionSettings>(
+    () => ({
+      temperature,
+      systemInstruction,
+      modelSource,
+      ngramSettings,
+      stopSettings,
+      generationParams,
+      samplingControls,
+      spinMode,
+      spinSeed,
+    }),
+    [
+      temperature,
+      systemInstruction,
+      modelSource,
+      ngramSettings,
+      stopSettings,
+      generationParams,
+      samplingControls,
+      spinMode,
+      spinSeed,
+    ]
+  );
 
-        return {
-          id: ++generationIdCounter,
-          tokens: data.tokens,
-          logprobsByPosition: data.logprobsByPosition,
-        } as GenerationData;
-      } catch (err) {
-        const message = err instanceof Error ? err.message : 'Unknown error';
-        setError(message);
-        return null;
-      }
+  // Capture the wheel as a session, with the latest streamed snapshots
+  const buildSession = useCallback((): WheelSession | null => {
+    const currentTree = treeRef.current;
+    const currentPrompt = promptRef.current;
+    if (!currentTree || !currentPrompt) return null;
+
+    return createSession(
+      currentPrompt,
+      sessionSettings,
+      {
+        ...currentTree,
+        nodes: currentTree.nodes.map((node) => ({
+          ...node,
+          generation:
+            generationsRef.current.get(node.generation.id) ?? node.generation,
+        })),
+      },
+      chatHistoryRef.current ?? undefined
+    );
+  }, [sessionSettings]);
+
+  // Put the wheel back exactly as a session left it, without the API
+  const restoreSession = useCallback(
+    (session: WheelSession) => {
+      // New generations must not reuse the saved ids
+      session.generations.forEach((gen) => {
+        generationIdCounter = Math.max(generationIdCounter, gen.id);
+      });
+
+      // Saved generations are complete
+      const restored = restoreSessionTree(session);
+      const restoredTree: ExplorationTree<GenerationData> = {
+        ...restored,
+        nodes: restored.nodes.map((node) => ({
+          ...node,
+          generation: { ...node.generation, done: true },
+        })),
+      };
+      restoredTree.nodes.forEach(({ generation }) => {
+        generationsRef.current.set(generation.id, generation);
+      });
+
+      const { settings } = session;
+      setTemperature(settings.temperature);
+      setSystemInstruction(settings.systemInstruction);
+      setModelSource(settings.modelSource);
+      setNgramSettings(settings.ngramSettings);
+      setStopSettings(settings.stopSettings);
+      setGenerationParams(settings.generationParams);
+      setSamplingControls(settings.samplingControls);
+      setSpinMode(settings.spinMode);
+      setSpinSeed(settings.spinSeed);
+      spinRandomRef.current = createSeededRandom(settings.spinSeed);
+
+      const node = restoredTree.nodes[restoredTree.currentId];
+      const tokens = getBranchTokens(restoredTree, node.id);
+      setPrompt(session.prompt);
+      setChatHistory(session.history ?? null);
+      setTree(restoredTree);
+      setRewoundFromId(null);
+      setSelectedTokens(tokens);
+      setBuiltText(stitchTokens(tokens, session.prompt));
+      showGeneration(node.generation, node.position);
     },
-    [temperature, systemInstruction]
+    [showGeneration]
   );
 
-  // Speculative generation - same as generate() but doesn't set loading state
-  const generateSpeculative = useCallback(
-    async (inputPrompt: string): Promise<GenerationData | null> => {
-      try {
-        const response = await fetch('/api/generate', {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
+  // Requests still streaming, aborted when the page goes away
+  const activeRequestsRef = useRef(new Set<AbortController>());
+
+  // Stream new tokens from the API - resolves as soon as the first token
+  // arrives, while the rest keep streaming into updateGeneration()
+  const requestGeneration = useCallback(
+    (
+      inputPrompt: string,
+      controller = new AbortController()
+    ): Promise<GenerationData> => {
+      // The n-gram model runs locally and finishes instantly
+      if (ngramModel) {
+        const positions = generateWithNgram(ngramModel, inputPrompt, {
+          maxTokens: stopSettings.maxTokens,
+          temperature,
+          numLogprobs: generationParams.numLogprobs,
+          // A fixed seed changes the draws, but they stay reproducible
+          random: createSeededRandom(
+            hashString(
+              generationParams.seed === null
+                ? inputPrompt
+                : `${generationParams.seed}\u0000${inputPrompt}`
+            )
+          ),
+        });
+        // Running out of continuations is the n-gram model's end of text
+        const { chunks, finishReason } = applyStopConditions(
+          positions.tokens.map((_, i) => getPosition(positions, i)),
+          stopSettings,
+          positions.tokens.length < stopSettings.maxTokens
+            ? 'end-of-text'
+            : 'length'
+        );
+        if (chunks.length === 0) {
+          return Promise.reject(
+            new GenerationError(
+              'The n-gram model has no continuation for this text',
+              'INVALID_INPUT'
+            )
+          );
+        }
+        const gen: GenerationData = {
+          id: ++generationIdCounter,
+          ...collectPositions(chunks),
+          finishReason,
+          done: true,
+        };
+        generationsRef.current.set(gen.id, gen);
+        return Promise.resolve(gen);
+      }
+
+      return new Promise((resolve, reject) => {
+        let gen: GenerationData = {
+          id: ++generationIdCounter,
+          ...collectPositions([]),
+          done: false,
+        };
+        const chunks: StreamedToken[] = [];
+        let hasFirstToken = false;
+        activeRequestsRef.current.add(controller);
+
+        // In chat mode the text after the user's message is the reply so
+        // far. History comes in user/assistant pairs, so an even cut keeps
+        // the first turn sent a user turn
+        const chatRequest = chatHistory && {
+          prompt: promptRef.current || '',
+          history: chatHistory.slice(-GENERATION_LIMITS.maxChatHistory),
+          reply: inputPrompt.slice(promptRef.current?.length ?? 0),
+        };
+
+        streamGeneration(
+          {
             prompt: inputPrompt,
-            maxTokens: 50,
+            ...chatRequest,
+            maxTokens: stopSettings.maxTokens,
+            stopSequences:
+              stopSettings.stopSequences.length > 0
+                ? stopSettings.stopSequences
+                : undefined,
+            stopAtSentenceEnd: stopSettings.stopAtSentenceEnd || undefined,
             temperature,
-            systemInstruction,
-          }),
-        });
+            topP: generationParams.topP,
+            topK: generationParams.topK,
+            numLogprobs: generationParams.numLogprobs,
+            seed: generationParams.seed ?? undefined,
+            // The continuation instruction would have the model finish the
+            // user's message instead of answering it
+            systemInstruction:
+              chatHistory && systemInstruction === DEFAULT_SYSTEM_INSTRUCTION
+                ? DEFAULT_CHAT_SYSTEM_INSTRUCTION
+                : systemInstruction,
+          },
+          (chunk) => {
+            chunks.push(chunk);
+            gen = { ...gen, ...collectPositions(chunks) };
+            updateGeneration(gen);
+            if (!hasFirstToken) {
+              hasFirstToken = true;
+              resolve(gen);
+            }
+          },
+          controller.signal
+        )
+          .then((finishReason) => {
+            if (!hasFirstToken) {
+              reject(new GenerationError('No content generated', 'INTERNAL'));
+              return;
+            }
+            updateGeneration({ ...gen, finishReason, done: true });
+          })
+          .catch((err) => {
+            if (!hasFirstToken) {
+              if (
+                err instanceof GenerationError &&
+                err.code === 'QUOTA_EXCEEDED'
+              ) {
+                prefetchStoppedRef.current = true;
+              }
+              reject(err);
+              return;
+            }
+            // Stream failed or was abandoned part-way - keep the tokens
+            // we already have
+            const currentAppState = appStateRef.current;
+            if (
+              !isAbortError(err) &&
+              currentAppState.type === 'spinning' &&
+              currentAppState.generation.id === gen.id
+            ) {
+              setFailure(describeFailure(err));
+            }
+            updateGeneration({ ...gen, done: true });
+          })
+          .finally(() => {
+            activeRequestsRef.current.delete(controller);
+          });
+      });
+    },
+    [
+      temperature,
+      systemInstruction,
+      chatHistory,
+      stopSettings,
+      generationParams,
+      ngramModel,
+      updateGeneration,
+    ]
+  );
 
-        const data = await response.json();
+  // Show a failed generation; a failed pick puts its wheel back
+  // instead of leaving the page stuck loading
+  const reportFailure = useCallback(
+    (err: unknown, request: FailedRequest) => {
+      setFailure(describeFailure(err, request));
+      // Autoplay would only run into the same failure again
+      setIsAutoplaying(false);
+
+      const parent =
+        request.branch && treeRef.current?.nodes[request.branch.parentId];
+      if (parent) {
+        showGeneration(parent.generation, parent.position);
+      }
+    },
+    [showGeneration]
+  );
 
-        if (!response.ok) {
-          const errorMsg =
-            data.userMessage || data.error || 'Generation failed';
-          const details = data.details ? ` (${data.details})` : '';
-          throw new Error(errorMsg + details);
-        }
+  // Generate new tokens, showing the loading state until the first arrives
+  const generate = useCallback(
+    async (inputPrompt: string, branch?: FailedRequest['branch']) => {
+      setAppState({ type: 'loading' });
+      setFailure(null);
 
-        return {
-          id: ++generationIdCounter,
-          tokens: data.tokens,
-          logprobsByPosition: data.logprobsByPosition,
-        } as GenerationData;
+      try {
+        return await requestGeneration(inputPrompt);
       } catch (err) {
-        const message = err instanceof Error ? err.message : 'Unknown error';
-        throw new Error(message);
+        // Aborted requests were abandoned on purpose
+        if (!isAbortError(err)) {
+          reportFailure(err, { text: inputPrompt, branch });
+        }
+        return null;
       }
     },
-    [temperature, systemInstruction]
+    [requestGeneration, reportFailure]
   );
 
   // Load prompt from sessionStorage and settings from localStorage on mount
@@ -196,29 +683,245 @@ export default function WheelPage() {
     if (savedInstruction !== null) {
       setSystemInstruction(savedInstruction);
     }
+    setSamplingControls(
+      parseSamplingControls(
+        localStorage.getItem(STORAGE_KEYS.SAMPLING_CONTROLS)
+      )
+    );
+    const savedSpinSettings = localStorage.getItem(STORAGE_KEYS.SPIN_SETTINGS);
+    if (savedSpinSettings !== null) {
+      try {
+        const { mode, seed } = JSON.parse(savedSpinSettings);
+        if (mode === 'sample') setSpinMode('sample');
+        if (Number.isInteger(seed)) {
+          setSpinSeed(seed);
+          spinRandomRef.current = createSeededRandom(seed);
+        }
+      } catch {
+        // Ignore malformed saved spin settings
+      }
+    }
+    if (localStorage.getItem(STORAGE_KEYS.SHOW_RESIDUAL) === 'true') {
+      setShowResidual(true);
+    }
+    setPrefetchSettings(
+      parsePrefetchSettings(
+        localStorage.getItem(STORAGE_KEYS.PREFETCH_SETTINGS)
+      )
+    );
+    if (localStorage.getItem(STORAGE_KEYS.MODEL_SOURCE) === 'ngram') {
+      setModelSource('ngram');
+    } else if (localStorage.getItem(STORAGE_KEYS.CHAT_MODE) === 'true') {
+      // Chat needs the API; the n-gram model only continues text
+      setChatHistory([]);
+    }
+    const savedNgramSettings = parseNgramSettings(
+      localStorage.getItem(STORAGE_KEYS.NGRAM_SETTINGS)
+    );
+    setNgramSettings(savedNgramSettings);
+    setStopSettings(
+      parseStopSettings(localStorage.getItem(STORAGE_KEYS.STOP_SETTINGS))
+    );
+    setGenerationParams(
+      parseGenerationParams(
+        localStorage.getItem(STORAGE_KEYS.GENERATION_PARAMS)
+      )
+    );
+    setWheelAnimation(
+      parseWheelAnimation(localStorage.getItem(STORAGE_KEYS.WHEEL_ANIMATION))
+    );
+    setAutoplaySettings(
+      parseAutoplaySettings(
+        localStorage.getItem(STORAGE_KEYS.AUTOPLAY_SETTINGS)
+      )
+    );
+
+    const loadFromStorage = () => {
+      // Resume the autosaved session, e.g. after a refresh
+      const savedSession = localStorage.getItem(STORAGE_KEYS.SESSION);
+      if (savedSession !== null) {
+        try {
+          // The autosave leaves out the corpus, which is saved on its own
+          const session = parseSession(JSON.parse(savedSession));
+          const { ngramSettings } = session.settings;
+          restoreSession({
+            ...session,
+            settings: {
+              ...session.settings,
+              ngramSettings: {
+                ...ngramSettings,
+                corpus: ngramSettings.corpus ?? savedNgramSettings.corpus,
+              },
+            },
+          });
+          return;
+        } catch {
+          // Ignore a malformed saved session and start fresh
+          localStorage.removeItem(STORAGE_KEYS.SESSION);
+        }
+      }
+
+      // Load prompt from sessionStorage
+      const savedPrompt = sessionStorage.getItem(STORAGE_KEYS.PROMPT);
+      if (!savedPrompt) {
+        // No prompt, redirect to home
+        router.replace('/');
+        return;
+      }
+
+      setPrompt(savedPrompt);
+      setBuiltText(savedPrompt);
+    };
+
+    // A shared link takes precedence over the autosaved session
+    const { hash, pathname } = window.location;
+    decodeSessionFragment(hash)
+      .then((session) => {
+        if (session) {
+          restoreSession(session);
+        } else {
+          loadFromStorage();
+        }
+      })
+      .catch((err) => {
+        setFailure(describeFailure(err));
+        loadFromStorage();
+      })
+      .finally(() => {
+        // Drop the fragment so a refresh resumes the autosaved session
+        if (hash) {
+          window.history.replaceState(null, '', pathname);
+        }
+      });
+  }, [router, restoreSession]);
+
+  // Stop streaming when the user leaves the wheel
+  useEffect(() => {
+    const activeRequests = activeRequestsRef.current;
+    return () => activeRequests.forEach((controller) => controller.abort());
+  }, []);
 
-    // Load prompt from sessionStorage
-    const savedPrompt = sessionStorage.getItem(STORAGE_KEYS.PROMPT);
-    if (!savedPrompt) {
-      // No prompt, redirect to home
-      router.replace('/');
-      return;
+  // Autosave on navigation and when the shown generation finishes, rather
+  // than re-serializing the whole session for every streamed token
+  const autosavePoint =
+    appState.type === 'spinning'
+      ? `${appState.visit}:${appState.generation.done}`
+      : appState.type;
+
+  // Autosave the session whenever the wheel changes
+  useEffect(() => {
+    const session = buildSession();
+    if (!session) return;
+    try {
+      localStorage.setItem(
+        STORAGE_KEYS.SESSION,
+        JSON.stringify(withoutCorpus(session))
+      );
+    } catch {
+      // Storage full - the session just won't survive a refresh
     }
+  }, [buildSession, tree, autosavePoint]);
 
-    setPrompt(savedPrompt);
-    setBuiltText(savedPrompt);
-  }, [router]);
+  // Generate the continuation of the original prompt at the root of the tree
+  const generateRoot = useCallback(
+    async (inputPrompt: string) => {
+      const gen = await generate(inputPrompt);
+      if (gen) {
+        setTree(createExplorationTree(gen));
+        showGeneration(gen, 0);
+      }
+    },
+    [generate, showGeneration]
+  );
 
   // Auto-trigger generation when prompt loads
   useEffect(() => {
-    if (prompt && appState.type === 'loading' && selectedTokens.length === 0) {
-      generate(prompt).then((gen) => {
-        if (gen) {
-          setAppState({ type: 'spinning', generation: gen, position: 0 });
-        }
-      });
+    if (prompt && appState.type === 'loading' && tree === null) {
+      generateRoot(prompt);
     }
-  }, [prompt, appState.type, selectedTokens.length, generate]);
+  }, [prompt, appState.type, tree, generateRoot]);
+
+  // Jump to an explored node and keep spinning from there
+  const goToNode = useCallback(
+    (nodeId: number) => {
+      const currentTree = treeRef.current;
+      if (!currentTree) return;
+
+      const node = currentTree.nodes[nodeId];
+      const tokens = getBranchTokens(currentTree, nodeId);
+
+      setFailure(null);
+      setTree((current) => current && moveToNode(current, nodeId));
+      setSelectedTokens(tokens);
+      setBuiltText(stitchTokens(tokens, promptRef.current || ''));
+      showGeneration(node.generation, node.position);
+    },
+    [showGeneration]
+  );
+
+  // Keeps the redo path while a move stays on it; anything else is a new
+  // choice, so there is nothing left to redo
+  const followRedoPath = useCallback((nodeId: number | null) => {
+    setRewoundFromId((previous) =>
+      previous !== null &&
+      nodeId !== null &&
+      treeRef.current &&
+      getBranchPath(treeRef.current, previous).includes(nodeId)
+        ? previous
+        : null
+    );
+  }, []);
+
+  // Jump to a node picked in the branch outline
+  const handleNodeSelect = useCallback(
+    (nodeId: number) => {
+      followRedoPath(nodeId);
+      goToNode(nodeId);
+    },
+    [followRedoPath, goToNode]
+  );
+
+  // Record a newly explored branch and continue spinning from it
+  const enterNewBranch = useCallback(
+    (
+      parentId: number,
+      token: string,
+      gen: GenerationData,
+      position: number
+    ) => {
+      setTree(
+        (current) =>
+          current && addBranch(current, parentId, token, gen, position)
+      );
+      showGeneration(gen, position);
+    },
+    [showGeneration]
+  );
+
+  // Generate the continuation after picking a token the model did not choose
+  const generateBranch = useCallback(
+    async (parentId: number, token: string) => {
+      const currentTree = treeRef.current;
+      if (!currentTree) return;
+
+      const newSelectedTokens = [
+        ...getBranchTokens(currentTree, parentId),
+        token,
+      ];
+      const newBuiltText = stitchTokens(
+        newSelectedTokens,
+        promptRef.current || ''
+      );
+
+      const newGen = await generate(newBuiltText, { parentId, token });
+      if (newGen) {
+        setSelectedTokens(newSelectedTokens);
+        setBuiltText(newBuiltText);
+        enterNewBranch(parentId, token, newGen, 0);
+      }
+    },
+    [generate, enterNewBranch]
+  );
 
   // Handle diverging token click - start speculative regeneration immediately
   const handleDivergingTokenClick = useCallback(
@@ -232,67 +935,83 @@ export default function WheelPage() {
       // Only start speculative regeneration for diverging tokens
       if (token === chosenToken) return;
 
-      // Pre-compute new state
-      const currentSelectedTokens = selectedTokensRef.current;
-      const currentBuiltText = builtTextRef.current;
-      const newSelectedTokens = [...currentSelectedTokens, token];
-      const newBuiltText = stitchToken(currentBuiltText, token);
-      const newPrompt = newBuiltText;
+      // Branches explored before already have their generation
+      const currentTree = treeRef.current;
+      if (currentTree && findBranch(currentTree, currentTree.currentId, token))
+        return;
 
-      // Start speculative API call
-      const promise = generateSpeculative(newPrompt);
-
-      // Create pending state
-      const pending: PendingRegeneration = {
-        token,
-        newBuiltText,
-        newSelectedTokens,
-        promise,
-        resolved: false,
-        result: null,
-        error: null,
-      };
-
-      setPendingRegen(pending);
-
-      // Track promise resolution
-      promise
-        .then((result) => {
-          // Update pending state when resolved
-          setPendingRegen((current) => {
-            // Only update if this is still the same pending request
-            if (current && current.token === token) {
-              return { ...current, resolved: true, result, error: null };
-            }
-            return current;
-          });
-        })
-        .catch((err) => {
-          const message = err instanceof Error ? err.message : 'Unknown error';
-          setPendingRegen((current) => {
-            if (current && current.token === token) {
-              return {
-                ...current,
-                resolved: true,
-                result: null,
-                error: message,
-              };
-            }
-            return current;
-          });
-        });
+      // Start the request now, unless it was already prefetched
+      const newBuiltText = stitchToken(builtTextRef.current, token);
+      prefetcherRef.current.request({
+        key: newBuiltText,
+        run: (controller) => requestGeneration(newBuiltText, controller),
+      });
     },
-    [generateSpeculative]
+    [requestGeneration]
   );
 
+  // Pre-generate the likeliest alternatives as soon as a wheel appears
+  const wheelVisit = appState.type === 'spinning' ? appState.visit : null;
+  useEffect(() => {
+    if (wheelVisit === null || !tree || !reshapedLogprobs) return;
+
+    // The n-gram model answers instantly, so there is nothing to win
+    const count =
+      modelSource === 'api' && !prefetchStoppedRef.current
+        ? prefetchSettings.count
+        : 0;
+    const candidates = Object.keys(reshapedLogprobs.kept)
+      .filter(
+        (token) =>
+          token !== currentChosenToken &&
+          !findBranch(tree, tree.currentId, token)
+      )
+      .sort((a, b) => reshapedLogprobs.kept[b] - reshapedLogprobs.kept[a])
+      .slice(0, count)
+      .map((token) => {
+        const text = stitchToken(builtText, token);
+        return {
+          key: text,
+          run: (controller: AbortController) =>
+            requestGeneration(text, controller),
+        };
+      });
+
+    prefetcherRef.current.schedule(candidates, prefetchSettings);
+  }, [
+    wheelVisit,
+    tree,
+    reshapedLogprobs,
+    currentChosenToken,
+    builtText,
+    modelSource,
+    prefetchSettings,
+    requestGeneration,
+  ]);
+
   // Handle token selection from the wheel
   const handleTokenSelect = useCallback(
     async (token: string) => {
       const currentAppState = appStateRef.current;
       if (currentAppState.type !== 'spinning') return;
 
+      const currentTree = treeRef.current;
+      if (!currentTree) return;
+
       const { generation: gen, position } = currentAppState;
       const chosenToken = gen.tokens[position];
+      const parentId = currentTree.currentId;
+      setAnnouncement(
+        `Added ${formatTokenForSpeech(token)} as token ${selectedTokensRef.current.length + 1}`
+      );
+
+      // Token was picked here before - revisit that branch
+      const explored = findBranch(currentTree, parentId, token);
+      followRedoPath(explored?.id ?? null);
+      if (explored) {
+        goToNode(explored.id);
+        return;
+      }
 
       if (token === chosenToken) {
         // Token matches AI choice - proceed normally
@@ -301,134 +1020,129 @@ export default function WheelPage() {
         const newSelectedTokens = [...currentSelectedTokens, token];
         const newBuiltText = stitchToken(currentBuiltText, token);
 
-        setUndoStack((prev) => [
-          ...prev,
-          {
-            type: 'normal',
-            previousGeneration: gen,
-            previousPosition: position,
-          },
-        ]);
         setSelectedTokens(newSelectedTokens);
         setBuiltText(newBuiltText);
-
-        if (position + 1 >= gen.tokens.length) {
-          setAppState({ type: 'complete' });
-        } else {
-          setAppState({
-            type: 'spinning',
-            generation: gen,
-            position: position + 1,
-          });
-        }
+        enterNewBranch(parentId, token, gen, position + 1);
       } else {
-        // Token differs from AI choice - check for pending speculative result
-        const pending = pendingRegenRef.current;
-
-        setUndoStack((prev) => [
-          ...prev,
-          {
-            type: 'ghost',
-            previousGeneration: gen,
-            previousPosition: position,
-          },
-        ]);
-
-        if (pending && pending.token === token && pending.resolved) {
-          // Speculative call finished - use cached result immediately
-          setPendingRegen(null);
-
-          if (pending.error) {
-            // Speculative call failed - show error
-            setError(pending.error);
-            setAppState({ type: 'loading' });
-          } else if (pending.result) {
-            // Use cached result - no loading state!
-            setSelectedTokens(pending.newSelectedTokens);
-            setBuiltText(pending.newBuiltText);
-            setAppState({
-              type: 'spinning',
-              generation: pending.result,
-              position: 0,
-            });
-          }
-        } else if (pending && pending.token === token && !pending.resolved) {
-          // Speculative call still in progress - show loading, await existing promise
+        // Token differs from AI choice - check for a speculative result
+        const newSelectedTokens = [...selectedTokensRef.current, token];
+        const newBuiltText = stitchToken(builtTextRef.current, token);
+        const speculative = prefetcherRef.current.get(newBuiltText);
+
+        if (speculative?.result) {
+          // Speculative call finished - no loading state!
+          setSelectedTokens(newSelectedTokens);
+          setBuiltText(newBuiltText);
+          enterNewBranch(parentId, token, speculative.result, 0);
+        } else if (speculative) {
+          // Speculative call still in progress - show loading and await it
           setAppState({ type: 'loading' });
-          setPendingRegen(null);
 
           try {
-            const result = await pending.promise;
-            if (result) {
-              setSelectedTokens(pending.newSelectedTokens);
-              setBuiltText(pending.newBuiltText);
-              setAppState({
-                type: 'spinning',
-                generation: result,
-                position: 0,
+            const result = await speculative.promise;
+            setSelectedTokens(newSelectedTokens);
+            setBuiltText(newBuiltText);
+            enterNewBranch(parentId, token, result, 0);
+          } catch (err) {
+            if (!isAbortError(err)) {
+              reportFailure(err, {
+                text: newBuiltText,
+                branch: { parentId, token },
               });
             }
-          } catch (err) {
-            const message =
-              err instanceof Error ? err.message : 'Unknown error';
-            setError(message);
           }
         } else {
-          // No pending speculative call or different token - fallback to normal flow
-          setPendingRegen(null);
-
-          const currentSelectedTokens = selectedTokensRef.current;
-          const currentBuiltText = builtTextRef.current;
-          const newSelectedTokens = [...currentSelectedTokens, token];
-          const newBuiltText = stitchToken(currentBuiltText, token);
-          const newPrompt = newBuiltText;
-
-          const newGen = await generate(newPrompt);
-          if (newGen) {
-            setSelectedTokens(newSelectedTokens);
-            setBuiltText(newBuiltText);
-            setAppState({ type: 'spinning', generation: newGen, position: 0 });
-          }
+          // No speculative call, or it failed - fall back to normal flow
+          await generateBranch(parentId, token);
         }
       }
     },
-    [generate]
+    [goToNode, followRedoPath, enterNewBranch, generateBranch, reportFailure]
+  );
+
+  // Step back to an earlier node on the current path, remembering the
+  // furthest point reached so it can be returned to
+  const rewindTo = useCallback(
+    (nodeId: number) => {
+      const currentTree = treeRef.current;
+      if (!currentTree) return;
+
+      const { currentId } = currentTree;
+      setRewoundFromId((previous) =>
+        previous !== null &&
+        getBranchPath(currentTree, previous).includes(currentId)
+          ? previous
+          : currentId
+      );
+      goToNode(nodeId);
+    },
+    [goToNode]
   );
 
-  // Undo last token selection
+  // Undo last token selection - the branch stays in the tree
   const handleUndo = useCallback(() => {
-    const currentPrompt = promptRef.current;
-    const currentUndoStack = undoStackRef.current;
-    const currentSelectedTokens = selectedTokensRef.current;
-
-    if (currentUndoStack.length === 0 || currentSelectedTokens.length === 0)
-      return;
-
-    // Clear any pending speculative regeneration
-    setPendingRegen(null);
-
-    const entry = currentUndoStack[currentUndoStack.length - 1];
-    const newUndoStack = currentUndoStack.slice(0, -1);
-    const newSelectedTokens = currentSelectedTokens.slice(0, -1);
-    const newBuiltText =
-      newSelectedTokens.length > 0
-        ? stitchTokens(newSelectedTokens, currentPrompt || '')
-        : currentPrompt || '';
-
-    setUndoStack(newUndoStack);
-    setSelectedTokens(newSelectedTokens);
-    setBuiltText(newBuiltText);
-
-    setAppState({
-      type: 'spinning',
-      generation: entry.previousGeneration,
-      position: entry.previousPosition,
-    });
-  }, []);
+    const currentTree = treeRef.current;
+    if (!currentTree) return;
+
+    const { parentId } = currentTree.nodes[currentTree.currentId];
+    if (parentId === null) return;
+
+    rewindTo(parentId);
+  }, [rewindTo]);
+
+  // Rewind to the wheel a selected token was picked on
+  const handleRewind = useCallback(
+    (index: number) => {
+      const currentTree = treeRef.current;
+      if (!currentTree) return;
+
+      rewindTo(getBranchPath(currentTree, currentTree.currentId)[index]);
+    },
+    [rewindTo]
+  );
+
+  // Nodes on the path rewound from that lie ahead of the current node
+  const aheadNodeIds = useMemo(() => {
+    if (!tree || rewoundFromId === null) return [];
+    const path = getBranchPath(tree, rewoundFromId);
+    const index = path.indexOf(tree.currentId);
+    return index === -1 ? [] : path.slice(index + 1);
+  }, [tree, rewoundFromId]);
+
+  // Step forward again along the path last rewound from
+  const handleRedo = useCallback(() => {
+    if (aheadNodeIds.length > 0) goToNode(aheadNodeIds[0]);
+  }, [aheadNodeIds, goToNode]);
+
+  // Send the failed request again
+  const handleRetry = useCallback(() => {
+    const request = failure?.request;
+    if (!request) return;
+
+    if (request.branch) {
+      generateBranch(request.branch.parentId, request.branch.token);
+    } else {
+      generateRoot(request.text);
+    }
+  }, [failure, generateBranch, generateRoot]);
+
+  // Take the text that failed back to the home page to change it; in chat
+  // mode, the user's message
+  const handleEditPrompt = useCallback(() => {
+    const request = failure?.request;
+    if (!request) return;
+
+    sessionStorage.setItem(
+      STORAGE_KEYS.PROMPT,
+      chatHistoryRef.current ? promptRef.current || '' : request.text
+    );
+    router.push('/');
+  }, [failure, router]);
 
   // Reset and go back to home
   const handleReset = useCallback(() => {
     sessionStorage.removeItem(STORAGE_KEYS.PROMPT);
+    localStorage.removeItem(STORAGE_KEYS.SESSION);
     router.push('/');
   }, [router]);
 
@@ -439,6 +1153,134 @@ export default function WheelPage() {
     router.push('/');
   }, [router]);
 
+  // Add the finished reply to the conversation and answer the next message
+  const handleSendMessage = useCallback(
+    (message: string) => {
+      const currentPrompt = promptRef.current;
+      if (!currentPrompt || !chatHistoryRef.current) return;
+
+      setChatHistory([
+        ...chatHistoryRef.current,
+        { role: 'user', content: currentPrompt },
+        {
+          role: 'assistant',
+          content: builtTextRef.current.slice(currentPrompt.length),
+        },
+      ]);
+
+      // Texts of this reply could recur in the next, with a different
+      // history, so its prefetches are dropped rather than reused
+      prefetcherRef.current.schedule([], prefetchSettings);
+      prefetcherRef.current = createPrefetcher(canAbortPrefetch);
+
+      // The new message becomes the root of a fresh tree
+      setFailure(null);
+      setRewoundFromId(null);
+      setPrompt(message);
+      setBuiltText(message);
+      setSelectedTokens([]);
+      setTree(null);
+      setAppState({ type: 'loading' });
+    },
+    [prefetchSettings, canAbortPrefetch]
+  );
+
+  // Update sampling controls and remember them for next time
+  const handleSamplingControlsChange = useCallback(
+    (controls: SamplingControlsValue) => {
+      setSamplingControls(controls);
+      localStorage.setItem(
+        STORAGE_KEYS.SAMPLING_CONTROLS,
+        JSON.stringify(controls)
+      );
+    },
+    []
+  );
+
+  // Update spin mode and seed; a new seed restarts the random sequence
+  const handleSpinSettingsChange = useCallback(
+    (mode: SpinMode, seed: number) => {
+      setSpinMode(mode);
+      setSpinSeed(seed);
+      spinRandomRef.current = createSeededRandom(seed);
+      localStorage.setItem(
+        STORAGE_KEYS.SPIN_SETTINGS,
+        JSON.stringify({ mode, seed })
+      );
+    },
+    []
+  );
+
+  // Start or pause autoplay
+  const handleAutoplayChange = useCallback((isPlaying: boolean) => {
+    setIsAutoplaying(isPlaying);
+    if (isPlaying) setAutoplayPausedOn(null);
+  }, []);
+
+  // Update the autoplay speed and pause threshold and remember them
+  const handleAutoplaySettingsChange = useCallback(
+    (settings: AutoplaySettings) => {
+      setAutoplaySettings(settings);
+      localStorage.setItem(
+        STORAGE_KEYS.AUTOPLAY_SETTINGS,
+        JSON.stringify(settings)
+      );
+    },
+    []
+  );
+
+  // The wheel held an unlikely result, so autoplay pauses on it
+  const handleResultHeld = useCallback((token: string) => {
+    setIsAutoplaying(false);
+    setAutoplayPausedOn(token);
+  }, []);
+
+  // Toggle the residual wedge and remember the choice
+  const handleShowResidualChange = useCallback((show: boolean) => {
+    setShowResidual(show);
+    localStorage.setItem(STORAGE_KEYS.SHOW_RESIDUAL, String(show));
+  }, []);
+
+  // Jumping around the tree waits for the wheel to settle and for a
+  // pending generation to arrive
+  const canNavigate =
+    appState.type === 'spinning'
+      ? !isWheelSpinning && legendSelectedToken === null
+      : appState.type !== 'loading' || failure !== null;
+
+  // Ctrl+Z undoes and Ctrl+Shift+Z redoes (Cmd on macOS), except while
+  // typing
+  useEffect(() => {
+    if (!canNavigate) return;
+    const handleKeyDown = (e: KeyboardEvent) => {
+      const target = e.target as HTMLElement;
+      if (
+        !(e.ctrlKey || e.metaKey) ||
+        e.key.toLowerCase() !== 'z' ||
+        target.isContentEditable ||
+        ['INPUT', 'TEXTAREA', 'SELECT'].includes(target.tagName)
+      ) {
+        return;
+      }
+      e.preventDefault();
+      if (e.shiftKey) {
+        handleRedo();
+      } else {
+        handleUndo();
+      }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [canNavigate, handleUndo, handleRedo]);
+
+  // Autoplay sets its own pace; by hand the wheel keeps the user's
+  const spinAnimation = useMemo(() => {
+    if (!isAutoplaying) return wheelAnimation;
+    const { spinDurationMs, resultDelayMs } =
+      AUTOPLAY_SPEEDS[autoplaySettings.speed];
+    return { ...wheelAnimation, spinDurationMs, resultDelayMs };
+  }, [isAutoplaying, autoplaySettings.speed, wheelAnimation]);
+
   // Handle legend token click - trigger wheel's wedge click
   const handleLegendClick = useCallback((token: string) => {
     wheelRef.current?.triggerWedgeClick(token);
@@ -448,48 +1290,104 @@ export default function WheelPage() {
     <div className="mx-auto min-h-screen max-w-3xl bg-zinc-50 dark:bg-zinc-950">
       <Header />
 
+      <div role="status" aria-live="polite" className="sr-only">
+        {announcement}
+      </div>
+
       <div className="flex flex-col gap-4">
         {prompt === null ? (
           <LoadingState />
         ) : (
           <>
             {/* Error Display */}
-            {error && <ErrorDisplay message={error} />}
+            {failure && (
+              <GenerationErrorNotice
+                key={failure.retryAt}
+                code={failure.code}
+                message={failure.message}
+                retryAt={failure.retryAt}
+                onRetry={failure.request && handleRetry}
+                onEditPrompt={failure.request && handleEditPrompt}
+                onDismiss={
+                  appState.type !== 'loading'
+                    ? () => setFailure(null)
+                    : undefined
+                }
+              />
+            )}
 
             {/* Loading State */}
-            {appState.type === 'loading' && (
+            {appState.type === 'loading' && !failure && (
               <LoadingState message="Generating tokens..." />
             )}
 
+            {/* Earlier turns and the message being answered */}
+            {chatHistory && (
+              <ChatTranscript history={chatHistory} message={prompt} />
+            )}
+
             {/* Built Text Display - spans full width */}
             {(appState.type === 'spinning' || appState.type === 'complete') && (
               <BuiltTextDisplay
-                prompt={prompt}
+                prompt={chatHistory ? '' : prompt}
+                title={chatHistory ? 'Assistant Reply' : undefined}
                 selectedTokens={selectedTokens}
+                choices={tokenChoices}
+                onTokenClick={canNavigate ? handleRewind : undefined}
+                aheadTokens={
+                  tree ? aheadNodeIds.map((id) => tree.nodes[id].token!) : []
+                }
+                onAheadTokenClick={
+                  canNavigate
+                    ? (index) => goToNode(aheadNodeIds[index])
+                    : undefined
+                }
                 showCursor={appState.type !== 'complete'}
-                showUndo={undoStack.length > 0}
+                // Like every other move, not while a pick is in flight
+                showUndo={canNavigate && tree !== null && tree.currentId !== 0}
                 onUndo={handleUndo}
+                showRedo={aheadNodeIds.length > 0}
+                onRedo={canNavigate ? handleRedo : undefined}
                 onReset={handleReset}
               />
             )}
 
+            {/* Waiting for the next streamed token */}
+            {appState.type === 'spinning' && !currentLogprobs && (
+              <LoadingState message="Waiting for the next token..." />
+            )}
+
             {/* Token Wheel and Legend - side by side on large screens */}
-            {appState.type === 'spinning' && currentLogprobs && (
+            {appState.type === 'spinning' && reshapedLogprobs && (
               <div className="flex flex-col gap-4 lg:flex-row">
                 <TokenWheel
                   ref={wheelRef}
-                  key={`${generation?.id}-${currentPosition}`}
-                  logprobs={currentLogprobs}
-                  chosenToken={currentChosenToken}
+                  key={appState.visit}
+                  logprobs={reshapedLogprobs.kept}
+                  colors={currentColors}
+                  residualMass={wheelResidualMass}
+                  chosenToken={wheelChosenToken}
                   onTokenSelect={handleTokenSelect}
                   onSelectedTokenChange={setLegendSelectedToken}
                   onWedgesChange={setLegendWedges}
                   onDivergingTokenClick={handleDivergingTokenClick}
+                  onSpinningChange={setIsWheelSpinning}
+                  spinMode={spinMode}
+                  random={drawSpinRandom}
+                  animation={spinAnimation}
+                  autoSpin={isAutoplaying}
+                  holdBelow={isAutoplaying ? autoplaySettings.pauseBelow : 0}
+                  onResultHeld={handleResultHeld}
                   currentPosition={currentPosition + 1}
                   totalPositions={generation?.tokens.length}
                 />
                 <TokenLegend
                   wedges={legendWedges}
+                  removedTokens={reshapedLogprobs.removed}
+                  entropy={currentEntropy}
+                  residualMass={currentResidualMass}
+                  showResidual={showResidual}
+                  onShowResidualChange={handleShowResidualChange}
                   selectedToken={legendSelectedToken}
                   onTokenClick={handleLegendClick}
                   disabled={appState.type !== 'spinning'}
@@ -497,14 +1395,74 @@ export default function WheelPage() {
               </div>
             )}
 
+            {/* Autoplay */}
+            {appState.type === 'spinning' && reshapedLogprobs && (
+              <AutoplayControls
+                isPlaying={isAutoplaying}
+                onPlayingChange={handleAutoplayChange}
+                settings={autoplaySettings}
+                onSettingsChange={handleAutoplaySettingsChange}
+                pausedOn={autoplayPausedOn}
+              />
+            )}
+
+            {/* Sampling Controls */}
+            {appState.type === 'spinning' && reshapedLogprobs && (
+              <SamplingControls
+                controls={samplingControls}
+                onControlsChange={handleSamplingControlsChange}
+                cutChosenToken={
+                  isChosenTokenCut && spinMode === 'replay'
+                    ? currentChosenToken
+                    : null
+                }
+                spinMode={spinMode}
+                onSpinModeChange={(mode) =>
+                  handleSpinSettingsChange(mode, spinSeed)
+                }
+                spinSeed={spinSeed}
+                onSpinSeedChange={(seed) =>
+                  handleSpinSettingsChange(spinMode, seed)
+                }
+                isOpen={showSamplingControls}
+                onToggle={() => setShowSamplingControls(!showSamplingControls)}
+                disabled={isWheelSpinning || legendSelectedToken !== null}
+              />
+            )}
+
+            {/* Explored branches */}
+            {tree && tree.nodes.length > 1 && (
+              <BranchTree
+                tree={tree}
+                onNodeSelect={handleNodeSelect}
+                isOpen={showBranchTree}
+                onToggle={() => setShowBranchTree(!showBranchTree)}
+                disabled={!canNavigate}
+              />
+            )}
+
+            {/* Finished reply - write the next message */}
+            {appState.type === 'complete' && chatHistory && (
+              <ChatComposer
+                tokenCount={selectedTokens.length}
+                finishReason={appState.finishReason}
+                onSend={handleSendMessage}
+                onReset={handleReset}
+              />
+            )}
+
             {/* Complete State */}
-            {appState.type === 'complete' && (
+            {appState.type === 'complete' && !chatHistory && (
               <CompletionBanner
                 tokenCount={selectedTokens.length}
+                finishReason={appState.finishReason}
                 onReset={handleReset}
                 onContinue={handleContinue}
               />
             )}
+
+            {/* Export and share */}
+            {tree && <SessionActions getSession={buildSession} />}
           </>
         )}
       </div>
@@ -0,0 +1,216 @@
+'use client';
+
+import { useState } from 'react';
+import {
+  BUILT_IN_PRESETS,
+  MAX_USER_PRESETS,
+  mergePresets,
+  parsePresets,
+  PresetValues,
+  SamplingPreset,
+} from '@/lib/presets';
+
+interface PresetPickerProps {
+  // The settings currently in effect, saved by "Save as new"
+  values: PresetValues;
+  userPresets: SamplingPreset[];
+  onUserPresetsChange: (presets: SamplingPreset[]) => void;
+  onApply: (values: PresetValues) => void;
+  disabled?: boolean;
+}
+
+const linkButtonClass =
+  'text-xs text-blue-600 hover:text-blue-700 disabled:cursor-not-allowed disabled:opacity-50 dark:text-blue-400 dark:hover:text-blue-300';
+
+function isSameValues(a: PresetValues, b: PresetValues) {
+  return (Object.keys(a) as (keyof PresetValues)[]).every(
+    (key) => a[key] === b[key]
+  );
+}
+
+export default function PresetPicker({
+  values,
+  userPresets,
+  onUserPresetsChange,
+  onApply,
+  disabled,
+}: PresetPickerProps) {
+  const presets = [...BUILT_IN_PRESETS, ...userPresets];
+  // The preset matching the current settings, if any
+  const current = presets.find((p) => isSameValues(p.values, values));
+
+  // Name being typed for a new preset, or for renaming the current one
+  const [draft, setDraft] = useState<{
+    mode: 'save' | 'rename';
+    name: string;
+  } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const handleSelect = (id: string) => {
+    const preset = presets.find((p) => p.id === id);
+    if (preset) onApply(preset.values);
+  };
+
+  const handleConfirmDraft = () => {
+    const name = draft?.name.trim();
+    if (!draft || !name) return;
+    if (draft.mode === 'save') {
+      onUserPresetsChange([
+        ...userPresets,
+        { id: crypto.randomUUID(), name, values },
+      ]);
+    } else if (current && !current.builtIn) {
+      onUserPresetsChange(
+        userPresets.map((p) => (p.id === current.id ? { ...p, name } : p))
+      );
+    }
+    setDraft(null);
+  };
+
+  const handleDelete = () => {
+    if (!current || current.builtIn) return;
+    onUserPresetsChange(userPresets.filter((p) => p.id !== current.id));
+  };
+
+  // Download the user's presets as a JSON file
+  const handleExport = () => {
+    const url = URL.createObjectURL(
+      new Blob([JSON.stringify(userPresets, null, 2)], {
+        type: 'application/json',
+      })
+    );
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'tokenwheel-presets.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Add the presets from an exported file
+  const handleImport = async (file: File | undefined) => {
+    if (!file) return;
+    try {
+      const imported = parsePresets(JSON.parse(await file.text()));
+      if (imported.length === 0) {
+        setError('No presets found in that file');
+        return;
+      }
+      setError(null);
+      onUserPresetsChange(mergePresets(userPresets, imported));
+    } catch {
+      setError('Not a presets file');
+    }
+  };
+
+  return (
+    <div className="flex flex-col gap-2">
+      <select
+        value={current?.id ?? ''}
+        onChange={(e) => handleSelect(e.target.value)}
+        disabled={disabled}
+        className="w-full rounded-lg border border-zinc-200 bg-white px-2 py-1 text-sm text-zinc-700 disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-300"
+      >
+        {!current && <option value="">Custom</option>}
+        <optgroup label="Built-in">
+          {BUILT_IN_PRESETS.map((preset) => (
+            <option key={preset.id} value={preset.id}>
+              {preset.name}
+            </option>
+          ))}
+        </optgroup>
+        {userPresets.length > 0 && (
+          <optgroup label="Your presets">
+            {userPresets.map((preset) => (
+              <option key={preset.id} value={preset.id}>
+                {preset.name}
+              </option>
+            ))}
+          </optgroup>
+        )}
+      </select>
+
+      {draft ? (
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={draft.name}
+            onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') handleConfirmDraft();
+              if (e.key === 'Escape') setDraft(null);
+            }}
+            autoFocus
+            maxLength={40}
+            placeholder="Preset name"
+            className="min-w-0 flex-1 rounded-lg border border-zinc-200 bg-white px-2 py-1 text-sm text-zinc-900 focus:ring-2 focus:ring-blue-500 focus:outline-none dark:border-zinc-700 dark:bg-zinc-900 dark:text-zinc-100"
+          />
+          <button
+            onClick={handleConfirmDraft}
+            disabled={!draft.name.trim()}
+            className={linkButtonClass}
+          >
+            {draft.mode === 'save' ? 'Save' : 'Rename'}
+          </button>
+          <button onClick={() => setDraft(null)} className={linkButtonClass}>
+            Cancel
+          </button>
+        </div>
+      ) : (
+        <div className="flex flex-wrap items-center gap-3">
+          <button
+            onClick={() => setDraft({ mode: 'save', name: '' })}
+            disabled={
+              disabled || !!current || userPresets.length >= MAX_USER_PRESETS
+            }
+            className={linkButtonClass}
+          >
+            Save as new
+          </button>
+          {current && !current.builtIn && (
+            <>
+              <button
+                onClick={() => setDraft({ mode: 'rename', name: current.name })}
+                disabled={disabled}
+                className={linkButtonClass}
+              >
+                Rename
+              </button>
+              <button
+                onClick={handleDelete}
+                disabled={disabled}
+                className={linkButtonClass}
+              >
+                Delete
+              </button>
+            </>
+          )}
+          <span className="flex-1" />
+          <button
+            onClick={handleExport}
+            disabled={userPresets.length === 0}
+            className={linkButtonClass}
+          >
+            Export
+          </button>
+          <label className={`cursor-pointer ${linkButtonClass}`}>
+            Import
+            <input
+              type="file"
+              accept=".json,application/json"
+              disabled={disabled}
+              className="hidden"
+              onChange={(e) => {
+                handleImport(e.target.files?.[0]);
+                e.target.value = '';
+              }}
+            />
+          </label>
+        </div>
+      )}
+
+      {error && (
+        <p className="text-xs text-red-600 dark:text-red-400">{error}</p>
+      )}
+    </div>
+  );
+}
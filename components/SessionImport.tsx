@@ -0,0 +1,56 @@
+'use client';
+
+import { useState } from 'react';
+import { parseSession, WheelSession } from '@/lib/session';
+
+interface SessionImportProps {
+  // May throw, e.g. when the session does not fit in storage
+  onImport: (session: WheelSession) => void;
+}
+
+export default function SessionImport({ onImport }: SessionImportProps) {
+  const [error, setError] = useState<string | null>(null);
+
+  // Read and validate an exported session file
+  const handleFile = async (file: File | undefined) => {
+    if (!file) return;
+    let session: WheelSession;
+    try {
+      session = parseSession(JSON.parse(await file.text()));
+    } catch (err) {
+      setError(
+        err instanceof Error && err.message.startsWith('Invalid session')
+          ? err.message
+          : 'Invalid session: not a session file'
+      );
+      return;
+    }
+
+    try {
+      onImport(session);
+      setError(null);
+    } catch {
+      setError('Could not open session: browser storage is full');
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-end gap-3 px-1 text-sm">
+      {error && (
+        <span className="text-xs text-red-600 dark:text-red-400">{error}</span>
+      )}
+      <label className="cursor-pointer text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300">
+        Open saved session
+        <input
+          type="file"
+          accept=".json,application/json"
+          className="hidden"
+          onChange={(e) => {
+            handleFile(e.target.files?.[0]);
+            e.target.value = '';
+          }}
+        />
+      </label>
+    </div>
+  );
+}
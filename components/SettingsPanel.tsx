@@ -1,10 +1,70 @@
+import { useState } from 'react';
 import {
   DEFAULT_TEMPERATURE,
   DEFAULT_SYSTEM_INSTRUCTION,
+  GENERATION_LIMITS,
   TEMPERATURE_CONFIG,
+  ModelSource,
+  NGRAM_CONFIG,
+  PREFETCH_CONFIG,
 } from '@/lib/constants';
+import { NgramSettings } from '@/lib/ngram';
+import { PrefetchSettings } from '@/lib/prefetch';
+import {
+  GenerationParams,
+  MAX_SEED,
+  PresetValues,
+  SamplingPreset,
+} from '@/lib/presets';
+import PresetPicker from './PresetPicker';
+import { StopSettings } from '@/lib/stopping';
+import {
+  MotionPreference,
+  SPIN_EASINGS,
+  SpinEasing,
+  SpinPhysics,
+  WHEEL_ANIMATION_LIMITS,
+  WheelAnimationSettings,
+} from '@/lib/wheel-animation';
+
+const NGRAM_ORDERS = Array.from(
+  { length: NGRAM_CONFIG.maxOrder - NGRAM_CONFIG.minOrder + 1 },
+  (_, i) => NGRAM_CONFIG.minOrder + i
+);
+
+const PREFETCH_COUNTS = Array.from(
+  { length: PREFETCH_CONFIG.maxCount + 1 },
+  (_, i) => i
+);
+
+const PREFETCH_CONCURRENCIES = Array.from(
+  { length: PREFETCH_CONFIG.maxConcurrency },
+  (_, i) => i + 1
+);
+
+// Stop sequences are typed with \n and \t escapes for whitespace
+function parseStopSequence(input: string): string {
+  return input.replace(/\\n/g, '\n').replace(/\\t/g, '\t');
+}
 
 interface SettingsPanelProps {
+  modelSource: ModelSource;
+  onModelSourceChange: (source: ModelSource) => void;
+  chatMode: boolean;
+  onChatModeChange: (chatMode: boolean) => void;
+  ngramSettings: NgramSettings;
+  onNgramSettingsChange: (settings: NgramSettings) => void;
+  prefetchSettings: PrefetchSettings;
+  onPrefetchSettingsChange: (settings: PrefetchSettings) => void;
+  stopSettings: StopSettings;
+  onStopSettingsChange: (settings: StopSettings) => void;
+  generationParams: GenerationParams;
+  onGenerationParamsChange: (params: GenerationParams) => void;
+  userPresets: SamplingPreset[];
+  onUserPresetsChange: (presets: SamplingPreset[]) => void;
+  onApplyPreset: (values: PresetValues) => void;
+  wheelAnimation: WheelAnimationSettings;
+  onWheelAnimationChange: (animation: WheelAnimationSettings) => void;
   temperature: number;
   onTemperatureChange: (temperature: number) => void;
   systemInstruction: string;
@@ -15,6 +75,23 @@ interface SettingsPanelProps {
 }
 
 export default function SettingsPanel({
+  modelSource,
+  onModelSourceChange,
+  chatMode,
+  onChatModeChange,
+  ngramSettings,
+  onNgramSettingsChange,
+  prefetchSettings,
+  onPrefetchSettingsChange,
+  stopSettings,
+  onStopSettingsChange,
+  generationParams,
+  onGenerationParamsChange,
+  userPresets,
+  onUserPresetsChange,
+  onApplyPreset,
+  wheelAnimation,
+  onWheelAnimationChange,
   temperature,
   onTemperatureChange,
   systemInstruction,
@@ -31,6 +108,40 @@ export default function SettingsPanel({
       (TEMPERATURE_CONFIG.max - TEMPERATURE_CONFIG.min)) *
     100;
 
+  const [corpusError, setCorpusError] = useState<string | null>(null);
+  const [stopSequenceDraft, setStopSequenceDraft] = useState('');
+
+  const canAddStopSequence =
+    stopSequenceDraft.length > 0 &&
+    stopSettings.stopSequences.length <
+      GENERATION_LIMITS.stopSequences.maxItems;
+
+  const handleAddStopSequence = () => {
+    if (!canAddStopSequence) return;
+    const sequence = parseStopSequence(stopSequenceDraft);
+    if (!stopSettings.stopSequences.includes(sequence)) {
+      onStopSettingsChange({
+        ...stopSettings,
+        stopSequences: [...stopSettings.stopSequences, sequence],
+      });
+    }
+    setStopSequenceDraft('');
+  };
+
+  // Load a plain-text training corpus for the n-gram model
+  const handleCorpusUpload = async (file: File | undefined) => {
+    if (!file) return;
+    const text = await file.text();
+    if (text.length > NGRAM_CONFIG.maxCorpusLength) {
+      setCorpusError(
+        `Corpus too long (max ${NGRAM_CONFIG.maxCorpusLength.toLocaleString()} characters)`
+      );
+      return;
+    }
+    setCorpusError(null);
+    onNgramSettingsChange({ ...ngramSettings, corpus: text });
+  };
+
   return (
     <div className="overflow-hidden rounded-xl border border-zinc-100 bg-white shadow-lg dark:border-zinc-800 dark:bg-zinc-900">
       <button
@@ -59,8 +170,240 @@ export default function SettingsPanel({
 
       {isOpen && (
         <div className="border-t border-zinc-100 px-6 pb-4 dark:border-zinc-800">
-          {/* Temperature Slider */}
+          {/* Model Source */}
           <div className="pt-4">
+            <span className="text-sm font-medium text-zinc-700 dark:text-zinc-300">
+              Model
+            </span>
+            <div className="mt-2 grid grid-cols-2 gap-2">
+              {(
+                [
+                  ['api', 'AI model (API)'],
+                  ['ngram', 'Local n-gram'],
+                ] as const
+              ).map(([source, label]) => (
+                <button
+                  key={source}
+                  onClick={() => onModelSourceChange(source)}
+                  disabled={disabled}
+                  className={`rounded-lg px-3 py-2 text-sm font-medium transition-colors disabled:cursor-not-allowed disabled:opacity-50 ${
+                    modelSource === source
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-zinc-100 text-zinc-700 hover:bg-zinc-200 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+
+            {modelSource === 'ngram' && (
+              <div className="mt-3 flex flex-col gap-3 rounded-lg bg-zinc-50 p-3 text-sm dark:bg-zinc-800">
+                <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                  A small statistical model that runs in your browser. No API
+                  key needed.
+                </p>
+                <div className="flex gap-3">
+                  <label className="flex flex-1 flex-col gap-1 text-zinc-700 dark:text-zinc-300">
+                    <span className="text-xs">Order (n)</span>
+                    <select
+                      value={ngramSettings.order}
+                      onChange={(e) =>
+                        onNgramSettingsChange({
+                          ...ngramSettings,
+                          order: parseInt(e.target.value, 10),
+                        })
+                      }
+                      disabled={disabled}
+                      className="rounded-lg border border-zinc-200 bg-white px-2 py-1 dark:border-zinc-700 dark:bg-zinc-900"
+                    >
+                      {NGRAM_ORDERS.map((order) => (
+                        <option key={order} value={order}>
+                          {order}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex flex-1 flex-col gap-1 text-zinc-700 dark:text-zinc-300">
+                    <span className="text-xs">Tokens</span>
+                    <select
+                      value={ngramSettings.level}
+                      onChange={(e) =>
+                        onNgramSettingsChange({
+                          ...ngramSettings,
+                          level: e.target.value === 'char' ? 'char' : 'word',
+                        })
+                      }
+                      disabled={disabled}
+                      className="rounded-lg border border-zinc-200 bg-white px-2 py-1 dark:border-zinc-700 dark:bg-zinc-900"
+                    >
+                      <option value="word">Words</option>
+                      <option value="char">Characters</option>
+                    </select>
+                  </label>
+                </div>
+                <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-zinc-600 dark:text-zinc-400">
+                  <span>
+                    Corpus:{' '}
+                    {ngramSettings.corpus === null
+                      ? 'bundled sample text'
+                      : `uploaded (${ngramSettings.corpus.length.toLocaleString()} characters)`}
+                  </span>
+                  <div className="flex gap-3">
+                    <label className="cursor-pointer text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300">
+                      Upload .txt
+                      <input
+                        type="file"
+                        accept=".txt,text/plain"
+                        disabled={disabled}
+                        className="hidden"
+                        onChange={(e) => {
+                          handleCorpusUpload(e.target.files?.[0]);
+                          e.target.value = '';
+                        }}
+                      />
+                    </label>
+                    {ngramSettings.corpus !== null && (
+                      <button
+                        onClick={() =>
+                          onNgramSettingsChange({
+                            ...ngramSettings,
+                            corpus: null,
+                          })
+                        }
+                        disabled={disabled}
+                        className="text-blue-600 hover:text-blue-700 disabled:cursor-not-allowed disabled:opacity-50 dark:text-blue-400 dark:hover:text-blue-300"
+                      >
+                        Use bundled
+                      </button>
+                    )}
+                  </div>
+                </div>
+                {corpusError && (
+                  <p className="text-xs text-red-600 dark:text-red-400">
+                    {corpusError}
+                  </p>
+                )}
+              </div>
+            )}
+
+            {modelSource === 'api' && (
+              <div className="mt-3 flex flex-col gap-3 rounded-lg bg-zinc-50 p-3 text-sm dark:bg-zinc-800">
+                <label className="flex items-center gap-2 text-zinc-700 dark:text-zinc-300">
+                  <input
+                    type="checkbox"
+                    checked={chatMode}
+                    onChange={(e) => onChatModeChange(e.target.checked)}
+                    disabled={disabled}
+                    className="accent-blue-600"
+                  />
+                  Chat mode
+                </label>
+                <p className="-mt-2 text-xs text-zinc-500 dark:text-zinc-400">
+                  Your prompt becomes the first message of a conversation, and
+                  the wheel steps through each of the model&apos;s replies.
+                </p>
+                {chatMode && (
+                  <p className="-mt-1 text-xs text-amber-600 dark:text-amber-400">
+                    Picking a different token partway through a reply needs a
+                    provider that can continue it, like Gemini.
+                    OpenAI-compatible servers answer a partial reply instead, so
+                    they can only branch on a reply&apos;s first token.
+                  </p>
+                )}
+                <p className="text-xs text-zinc-500 dark:text-zinc-400">
+                  Generate continuations for the likeliest alternative wedges
+                  before you pick them, so branching off feels instant. Each one
+                  is a model request.
+                </p>
+                <div className="flex gap-3">
+                  <label className="flex flex-1 flex-col gap-1 text-zinc-700 dark:text-zinc-300">
+                    <span className="text-xs">Prefetch</span>
+                    <select
+                      value={prefetchSettings.count}
+                      onChange={(e) =>
+                        onPrefetchSettingsChange({
+                          ...prefetchSettings,
+                          count: parseInt(e.target.value, 10),
+                        })
+                      }
+                      disabled={disabled}
+                      className="rounded-lg border border-zinc-200 bg-white px-2 py-1 dark:border-zinc-700 dark:bg-zinc-900"
+                    >
+                      {PREFETCH_COUNTS.map((count) => (
+                        <option key={count} value={count}>
+                          {count === 0
+                            ? 'Off'
+                            : `${count} wedge${count === 1 ? '' : 's'}`}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex flex-1 flex-col gap-1 text-zinc-700 dark:text-zinc-300">
+                    <span className="text-xs">At once</span>
+                    <select
+                      value={prefetchSettings.concurrency}
+                      onChange={(e) =>
+                        onPrefetchSettingsChange({
+                          ...prefetchSettings,
+                          concurrency: parseInt(e.target.value, 10),
+                        })
+                      }
+                      disabled={disabled || prefetchSettings.count === 0}
+                      className="rounded-lg border border-zinc-200 bg-white px-2 py-1 disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-900"
+                    >
+                      {PREFETCH_CONCURRENCIES.map((concurrency) => (
+                        <option key={concurrency} value={concurrency}>
+                          {concurrency}
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                  <label className="flex flex-1 flex-col gap-1 text-zinc-700 dark:text-zinc-300">
+                    <span className="text-xs">Budget</span>
+                    <select
+                      value={prefetchSettings.budget}
+                      onChange={(e) =>
+                        onPrefetchSettingsChange({
+                          ...prefetchSettings,
+                          budget: parseInt(e.target.value, 10),
+                        })
+                      }
+                      disabled={disabled || prefetchSettings.count === 0}
+                      className="rounded-lg border border-zinc-200 bg-white px-2 py-1 disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-900"
+                    >
+                      {PREFETCH_CONFIG.budgetOptions.map((budget) => (
+                        <option key={budget} value={budget}>
+                          {budget} requests
+                        </option>
+                      ))}
+                    </select>
+                  </label>
+                </div>
+              </div>
+            )}
+          </div>
+
+          {/* Presets */}
+          <div className="mt-4 border-t border-zinc-100 pt-4 dark:border-zinc-800">
+            <div className="mb-2 text-sm font-medium text-zinc-700 dark:text-zinc-300">
+              Preset
+            </div>
+            <PresetPicker
+              values={{
+                ...generationParams,
+                temperature,
+                maxTokens: stopSettings.maxTokens,
+              }}
+              userPresets={userPresets}
+              onUserPresetsChange={onUserPresetsChange}
+              onApply={onApplyPreset}
+              disabled={disabled}
+            />
+          </div>
+
+          {/* Temperature Slider */}
+          <div className="mt-4 border-t border-zinc-100 pt-4 dark:border-zinc-800">
             <div className="mb-2 flex items-center justify-between">
               <label className="text-sm font-medium text-zinc-700 dark:text-zinc-300">
                 Temperature:{' '}
@@ -97,6 +440,336 @@ export default function SettingsPanel({
             </div>
           </div>
 
+          {/* Sampling Parameters */}
+          <div className="mt-4 grid grid-cols-2 gap-3 border-t border-zinc-100 pt-4 text-sm dark:border-zinc-800">
+            {modelSource === 'api' && (
+              <>
+                <label className="flex flex-col gap-1 text-zinc-700 dark:text-zinc-300">
+                  <span className="text-xs">
+                    Top-p: {generationParams.topP.toFixed(2)}
+                  </span>
+                  <input
+                    type="range"
+                    min={GENERATION_LIMITS.topP.min}
+                    max={GENERATION_LIMITS.topP.max}
+                    step={0.01}
+                    value={generationParams.topP}
+                    onChange={(e) =>
+                      onGenerationParamsChange({
+                        ...generationParams,
+                        topP: parseFloat(e.target.value),
+                      })
+                    }
+                    disabled={disabled}
+                    className="h-2 w-full cursor-pointer accent-blue-600 disabled:cursor-not-allowed disabled:opacity-50"
+                  />
+                </label>
+                <label className="flex flex-col gap-1 text-zinc-700 dark:text-zinc-300">
+                  <span className="text-xs">
+                    Top-k: {generationParams.topK}
+                  </span>
+                  <input
+                    type="range"
+                    min={GENERATION_LIMITS.topK.min}
+                    max={GENERATION_LIMITS.topK.max}
+                    step={1}
+                    value={generationParams.topK}
+                    onChange={(e) =>
+                      onGenerationParamsChange({
+                        ...generationParams,
+                        topK: parseInt(e.target.value, 10),
+                      })
+                    }
+                    disabled={disabled}
+                    className="h-2 w-full cursor-pointer accent-blue-600 disabled:cursor-not-allowed disabled:opacity-50"
+                  />
+                </label>
+              </>
+            )}
+            <label className="flex flex-col gap-1 text-zinc-700 dark:text-zinc-300">
+              <span className="text-xs">
+                Wedges per position: {generationParams.numLogprobs}
+              </span>
+              <input
+                type="range"
+                min={GENERATION_LIMITS.numLogprobs.min}
+                max={GENERATION_LIMITS.numLogprobs.max}
+                step={1}
+                value={generationParams.numLogprobs}
+                onChange={(e) =>
+                  onGenerationParamsChange({
+                    ...generationParams,
+                    numLogprobs: parseInt(e.target.value, 10),
+                  })
+                }
+                disabled={disabled}
+                className="h-2 w-full cursor-pointer accent-blue-600 disabled:cursor-not-allowed disabled:opacity-50"
+              />
+            </label>
+            <label className="flex flex-col gap-1 text-zinc-700 dark:text-zinc-300">
+              <span className="text-xs">Seed</span>
+              <input
+                type="number"
+                min={0}
+                max={MAX_SEED}
+                step={1}
+                value={generationParams.seed ?? ''}
+                onChange={(e) => {
+                  const seed = parseInt(e.target.value, 10);
+                  onGenerationParamsChange({
+                    ...generationParams,
+                    seed:
+                      Number.isInteger(seed) && seed >= 0 && seed <= MAX_SEED
+                        ? seed
+                        : null,
+                  });
+                }}
+                disabled={disabled}
+                placeholder="Random"
+                className="rounded-lg border border-zinc-200 bg-zinc-50 px-2 py-1 text-zinc-900 placeholder-zinc-400 disabled:cursor-not-allowed disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100 dark:placeholder-zinc-500"
+              />
+            </label>
+          </div>
+
+          {/* Length and Stop Conditions */}
+          <div className="mt-4 border-t border-zinc-100 pt-4 dark:border-zinc-800">
+            <label className="text-sm font-medium text-zinc-700 dark:text-zinc-300">
+              Max tokens:{' '}
+              <span className="text-zinc-500 dark:text-zinc-400">
+                {stopSettings.maxTokens}
+              </span>
+            </label>
+            <input
+              type="range"
+              min={GENERATION_LIMITS.maxTokens.min}
+              max={GENERATION_LIMITS.maxTokens.max}
+              step={1}
+              value={stopSettings.maxTokens}
+              onChange={(e) =>
+                onStopSettingsChange({
+                  ...stopSettings,
+                  maxTokens: parseInt(e.target.value, 10),
+                })
+              }
+              disabled={disabled}
+              className="mt-2 h-2 w-full cursor-pointer accent-blue-600 disabled:cursor-not-allowed disabled:opacity-50"
+            />
+
+            <div className="mt-3 text-sm font-medium text-zinc-700 dark:text-zinc-300">
+              Stop sequences
+            </div>
+            {stopSettings.stopSequences.length > 0 && (
+              <div className="mt-2 flex flex-wrap gap-2">
+                {stopSettings.stopSequences.map((sequence) => (
+                  <span
+                    key={sequence}
+                    className="flex items-center gap-1 rounded bg-zinc-100 px-2 py-1 font-mono text-xs text-zinc-700 dark:bg-zinc-800 dark:text-zinc-300"
+                  >
+                    {JSON.stringify(sequence)}
+                    <button
+                      onClick={() =>
+                        onStopSettingsChange({
+                          ...stopSettings,
+                          stopSequences: stopSettings.stopSequences.filter(
+                            (s) => s !== sequence
+                          ),
+                        })
+                      }
+                      disabled={disabled}
+                      aria-label={`Remove stop sequence ${JSON.stringify(sequence)}`}
+                      className="text-zinc-400 hover:text-zinc-600 disabled:cursor-not-allowed dark:hover:text-zinc-200"
+                    >
+                      ×
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+            <div className="mt-2 flex gap-2">
+              <input
+                type="text"
+                value={stopSequenceDraft}
+                onChange={(e) => setStopSequenceDraft(e.target.value)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') handleAddStopSequence();
+                }}
+                maxLength={GENERATION_LIMITS.stopSequences.maxLength}
+                disabled={
+                  disabled ||
+                  stopSettings.stopSequences.length >=
+                    GENERATION_LIMITS.stopSequences.maxItems
+                }
+                placeholder="e.g. \n or THE END"
+                className="min-w-0 flex-1 rounded-lg border border-zinc-200 bg-zinc-50 px-3 py-1 font-mono text-sm text-zinc-900 placeholder-zinc-400 focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:cursor-not-allowed disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100 dark:placeholder-zinc-500"
+              />
+              <button
+                onClick={handleAddStopSequence}
+                disabled={disabled || !canAddStopSequence}
+                className="rounded-lg bg-zinc-100 px-3 py-1 text-sm text-zinc-700 transition-colors hover:bg-zinc-200 disabled:cursor-not-allowed disabled:opacity-50 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700"
+              >
+                Add
+              </button>
+            </div>
+
+            <label className="mt-3 flex items-center gap-2 text-sm text-zinc-700 dark:text-zinc-300">
+              <input
+                type="checkbox"
+                checked={stopSettings.stopAtSentenceEnd}
+                onChange={(e) =>
+                  onStopSettingsChange({
+                    ...stopSettings,
+                    stopAtSentenceEnd: e.target.checked,
+                  })
+                }
+                disabled={disabled}
+                className="accent-blue-600"
+              />
+              Stop at the end of the first sentence
+            </label>
+          </div>
+
+          {/* Wheel Animation */}
+          <div className="mt-4 border-t border-zinc-100 pt-4 text-sm dark:border-zinc-800">
+            <div className="mb-2 font-medium text-zinc-700 dark:text-zinc-300">
+              Wheel Animation
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+              <label className="flex flex-col gap-1 text-zinc-700 dark:text-zinc-300">
+                <span className="text-xs">
+                  Spin: {(wheelAnimation.spinDurationMs / 1000).toFixed(2)}s
+                </span>
+                <input
+                  type="range"
+                  {...WHEEL_ANIMATION_LIMITS.spinDurationMs}
+                  value={wheelAnimation.spinDurationMs}
+                  onChange={(e) =>
+                    onWheelAnimationChange({
+                      ...wheelAnimation,
+                      spinDurationMs: parseInt(e.target.value, 10),
+                    })
+                  }
+                  disabled={disabled}
+                  className="h-2 w-full cursor-pointer accent-blue-600 disabled:cursor-not-allowed disabled:opacity-50"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-zinc-700 dark:text-zinc-300">
+                <span className="text-xs">
+                  Result shown:{' '}
+                  {(wheelAnimation.resultDelayMs / 1000).toFixed(2)}s
+                </span>
+                <input
+                  type="range"
+                  {...WHEEL_ANIMATION_LIMITS.resultDelayMs}
+                  value={wheelAnimation.resultDelayMs}
+                  onChange={(e) =>
+                    onWheelAnimationChange({
+                      ...wheelAnimation,
+                      resultDelayMs: parseInt(e.target.value, 10),
+                    })
+                  }
+                  disabled={disabled}
+                  className="h-2 w-full cursor-pointer accent-blue-600 disabled:cursor-not-allowed disabled:opacity-50"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-zinc-700 dark:text-zinc-300">
+                <span className="text-xs">
+                  Turns: {wheelAnimation.minRotations}
+                </span>
+                <input
+                  type="range"
+                  {...WHEEL_ANIMATION_LIMITS.minRotations}
+                  step={1}
+                  value={wheelAnimation.minRotations}
+                  onChange={(e) =>
+                    onWheelAnimationChange({
+                      ...wheelAnimation,
+                      minRotations: parseInt(e.target.value, 10),
+                    })
+                  }
+                  disabled={disabled}
+                  className="h-2 w-full cursor-pointer accent-blue-600 disabled:cursor-not-allowed disabled:opacity-50"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-zinc-700 dark:text-zinc-300">
+                <span className="text-xs">
+                  Random extra turns: up to {wheelAnimation.extraRotations}
+                </span>
+                <input
+                  type="range"
+                  {...WHEEL_ANIMATION_LIMITS.extraRotations}
+                  step={1}
+                  value={wheelAnimation.extraRotations}
+                  onChange={(e) =>
+                    onWheelAnimationChange({
+                      ...wheelAnimation,
+                      extraRotations: parseInt(e.target.value, 10),
+                    })
+                  }
+                  disabled={disabled}
+                  className="h-2 w-full cursor-pointer accent-blue-600 disabled:cursor-not-allowed disabled:opacity-50"
+                />
+              </label>
+              <label className="flex flex-col gap-1 text-zinc-700 dark:text-zinc-300">
+                <span className="text-xs">Physics</span>
+                <select
+                  value={wheelAnimation.physics}
+                  onChange={(e) =>
+                    onWheelAnimationChange({
+                      ...wheelAnimation,
+                      physics: e.target.value as SpinPhysics,
+                    })
+                  }
+                  disabled={disabled}
+                  className="rounded-lg border border-zinc-200 bg-white px-2 py-1 disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-900"
+                >
+                  <option value="easing">Easing curve</option>
+                  <option value="friction">Friction, with pointer ticks</option>
+                </select>
+              </label>
+              <label className="flex flex-col gap-1 text-zinc-700 dark:text-zinc-300">
+                <span className="text-xs">Easing</span>
+                <select
+                  value={wheelAnimation.easing}
+                  onChange={(e) =>
+                    onWheelAnimationChange({
+                      ...wheelAnimation,
+                      easing: e.target.value as SpinEasing,
+                    })
+                  }
+                  // The friction model decelerates on its own
+                  disabled={disabled || wheelAnimation.physics === 'friction'}
+                  className="rounded-lg border border-zinc-200 bg-white px-2 py-1 disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-900"
+                >
+                  {(Object.keys(SPIN_EASINGS) as SpinEasing[]).map((easing) => (
+                    <option key={easing} value={easing}>
+                      {SPIN_EASINGS[easing].label}
+                    </option>
+                  ))}
+                </select>
+              </label>
+              <label className="col-span-2 flex flex-col gap-1 text-zinc-700 dark:text-zinc-300">
+                <span className="text-xs">Motion</span>
+                <select
+                  value={wheelAnimation.motion}
+                  onChange={(e) =>
+                    onWheelAnimationChange({
+                      ...wheelAnimation,
+                      motion: e.target.value as MotionPreference,
+                    })
+                  }
+                  disabled={disabled}
+                  className="rounded-lg border border-zinc-200 bg-white px-2 py-1 disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-900"
+                >
+                  <option value="system">Follow system setting</option>
+                  <option value="full">Always animate</option>
+                  <option value="reduced">
+                    Reduced - land without spinning
+                  </option>
+                </select>
+              </label>
+            </div>
+          </div>
+
           {/* System Instruction */}
           <div className="mt-4 border-t border-zinc-100 pt-4 dark:border-zinc-800">
             <div className="flex items-center justify-between text-sm font-medium text-zinc-700 dark:text-zinc-300">
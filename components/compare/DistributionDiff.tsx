@@ -0,0 +1,107 @@
+'use client';
+
+import { DistributionComparison } from '@/lib/compare';
+import { formatTokenForDisplay } from '@/lib/utils';
+
+interface DistributionDiffProps {
+  comparison: DistributionComparison;
+  colors: Record<string, string>;
+  leftLabel: string;
+  rightLabel: string;
+  // Picks a token for both sides at once
+  onTokenClick: (token: string) => void;
+  disabled: boolean;
+}
+
+function formatPercent(probability: number | null): string {
+  return probability === null ? '—' : `${(probability * 100).toFixed(1)}%`;
+}
+
+export default function DistributionDiff({
+  comparison,
+  colors,
+  leftLabel,
+  rightLabel,
+  onTokenClick,
+  disabled,
+}: DistributionDiffProps) {
+  const { rows, sharedCount, klLeftRight, klRightLeft } = comparison;
+
+  return (
+    <div className="rounded-xl border border-zinc-100 bg-white p-6 shadow-lg dark:border-zinc-800 dark:bg-zinc-900">
+      <h3 className="mb-3 text-sm font-medium text-zinc-600 dark:text-zinc-400">
+        Distribution Diff
+      </h3>
+
+      <div className="mb-3 flex flex-wrap gap-x-4 gap-y-1 text-xs text-zinc-500 dark:text-zinc-400">
+        <span>
+          Shared tokens: {sharedCount} of {rows.length}
+        </span>
+        <span>
+          KL({leftLabel} ‖ {rightLabel}): {klLeftRight.toFixed(3)} bits
+        </span>
+        <span>
+          KL({rightLabel} ‖ {leftLabel}): {klRightLeft.toFixed(3)} bits
+        </span>
+      </div>
+
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs text-zinc-500 dark:text-zinc-400">
+            <th className="pb-2 font-normal">Token</th>
+            <th className="pb-2 text-right font-normal">{leftLabel}</th>
+            <th className="pb-2 text-right font-normal">{rightLabel}</th>
+            <th className="pb-2 text-right font-normal">Δ</th>
+          </tr>
+        </thead>
+        <tbody>
+          {rows.map((row) => (
+            <tr
+              key={row.token}
+              onClick={() => !disabled && onTokenClick(row.token)}
+              className={`border-t border-zinc-100 dark:border-zinc-800 ${
+                disabled
+                  ? 'cursor-not-allowed'
+                  : 'cursor-pointer hover:bg-zinc-50 dark:hover:bg-zinc-800'
+              }`}
+            >
+              <td className="py-1.5">
+                <span className="flex items-center gap-2">
+                  <span
+                    className="h-3 w-3 flex-shrink-0 rounded-full"
+                    style={{ backgroundColor: colors[row.token] }}
+                  />
+                  <span className="font-mono text-zinc-800 dark:text-zinc-200">
+                    {formatTokenForDisplay(row.token)}
+                  </span>
+                </span>
+              </td>
+              <td className="py-1.5 text-right text-zinc-600 tabular-nums dark:text-zinc-400">
+                {formatPercent(row.left)}
+              </td>
+              <td className="py-1.5 text-right text-zinc-600 tabular-nums dark:text-zinc-400">
+                {formatPercent(row.right)}
+              </td>
+              <td
+                className={`py-1.5 text-right tabular-nums ${
+                  row.delta > 0
+                    ? 'text-emerald-600 dark:text-emerald-400'
+                    : row.delta < 0
+                      ? 'text-red-600 dark:text-red-400'
+                      : 'text-zinc-400'
+                }`}
+              >
+                {row.delta > 0 ? '+' : ''}
+                {(row.delta * 100).toFixed(1)}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+      <p className="mt-2 text-xs text-zinc-400 dark:text-zinc-500">
+        Δ is in percentage points. Tokens a side did not return count as
+        unlikely but possible for the KL divergence.
+      </p>
+    </div>
+  );
+}
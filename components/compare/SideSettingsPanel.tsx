@@ -0,0 +1,113 @@
+'use client';
+
+import { useState } from 'react';
+import { TEMPERATURE_CONFIG } from '@/lib/constants';
+import { CompareSideSettings } from '@/lib/compare';
+import { PROVIDER_NAMES, ProviderName } from '@/lib/providers/types';
+
+interface SideSettingsPanelProps {
+  label: string;
+  settings: CompareSideSettings;
+  // Called with the edited settings when the user applies them
+  onApply: (settings: CompareSideSettings) => void;
+  disabled?: boolean;
+}
+
+export default function SideSettingsPanel({
+  label,
+  settings,
+  onApply,
+  disabled,
+}: SideSettingsPanelProps) {
+  // Edits are only sent once applied, so dragging the slider is free
+  const [draft, setDraft] = useState(settings);
+  const isChanged = JSON.stringify(draft) !== JSON.stringify(settings);
+
+  return (
+    <div className="flex flex-col gap-3 rounded-xl border border-zinc-100 bg-white p-4 text-sm shadow-lg dark:border-zinc-800 dark:bg-zinc-900">
+      <div className="flex items-center justify-between">
+        <span className="font-medium text-zinc-700 dark:text-zinc-300">
+          {label}
+        </span>
+        <button
+          onClick={() => onApply(draft)}
+          disabled={disabled || !isChanged}
+          className="rounded-lg bg-blue-600 px-3 py-1 text-xs font-medium text-white transition-colors hover:bg-blue-700 disabled:cursor-not-allowed disabled:opacity-50"
+        >
+          Apply
+        </button>
+      </div>
+
+      <label className="flex flex-col gap-1 text-zinc-700 dark:text-zinc-300">
+        <span className="text-xs">
+          Temperature:{' '}
+          <span className="text-zinc-500 dark:text-zinc-400">
+            {draft.temperature.toFixed(2)}
+          </span>
+        </span>
+        <input
+          type="range"
+          min={TEMPERATURE_CONFIG.min}
+          max={TEMPERATURE_CONFIG.max}
+          step={TEMPERATURE_CONFIG.step}
+          value={draft.temperature}
+          onChange={(e) =>
+            setDraft({ ...draft, temperature: parseFloat(e.target.value) })
+          }
+          disabled={disabled}
+          className="w-full accent-blue-600 disabled:cursor-not-allowed disabled:opacity-50"
+        />
+      </label>
+
+      <div className="flex gap-3">
+        <label className="flex flex-1 flex-col gap-1 text-zinc-700 dark:text-zinc-300">
+          <span className="text-xs">Provider</span>
+          <select
+            value={draft.provider ?? ''}
+            onChange={(e) =>
+              setDraft({
+                ...draft,
+                provider: (e.target.value || undefined) as
+                  | ProviderName
+                  | undefined,
+              })
+            }
+            disabled={disabled}
+            className="rounded-lg border border-zinc-200 bg-white px-2 py-1 dark:border-zinc-700 dark:bg-zinc-900"
+          >
+            <option value="">Server default</option>
+            {PROVIDER_NAMES.map((name) => (
+              <option key={name} value={name}>
+                {name}
+              </option>
+            ))}
+          </select>
+        </label>
+        <label className="flex flex-1 flex-col gap-1 text-zinc-700 dark:text-zinc-300">
+          <span className="text-xs">Model</span>
+          <input
+            type="text"
+            value={draft.model}
+            onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+            disabled={disabled}
+            placeholder="Provider default"
+            className="rounded-lg border border-zinc-200 bg-white px-2 py-1 dark:border-zinc-700 dark:bg-zinc-900"
+          />
+        </label>
+      </div>
+
+      <label className="flex flex-col gap-1 text-zinc-700 dark:text-zinc-300">
+        <span className="text-xs">System Instruction</span>
+        <textarea
+          value={draft.systemInstruction}
+          onChange={(e) =>
+            setDraft({ ...draft, systemInstruction: e.target.value })
+          }
+          disabled={disabled}
+          rows={3}
+          className="w-full resize-y rounded-lg border border-zinc-200 bg-zinc-50 px-3 py-2 text-xs text-zinc-900 focus:ring-2 focus:ring-blue-500 focus:outline-none disabled:cursor-not-allowed disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100"
+        />
+      </label>
+    </div>
+  );
+}
@@ -0,0 +1,84 @@
+import {
+  AUTOPLAY_PAUSE_THRESHOLDS,
+  AUTOPLAY_SPEEDS,
+  AutoplaySettings,
+  AutoplaySpeed,
+} from '@/lib/autoplay';
+import { formatTokenForDisplay } from '@/lib/utils';
+
+interface AutoplayControlsProps {
+  isPlaying: boolean;
+  onPlayingChange: (isPlaying: boolean) => void;
+  settings: AutoplaySettings;
+  onSettingsChange: (settings: AutoplaySettings) => void;
+  // The unlikely token autoplay paused on, if it did
+  pausedOn?: string | null;
+}
+
+export default function AutoplayControls({
+  isPlaying,
+  onPlayingChange,
+  settings,
+  onSettingsChange,
+  pausedOn,
+}: AutoplayControlsProps) {
+  return (
+    <div className="rounded-xl border border-zinc-100 bg-white px-6 py-3 shadow-lg dark:border-zinc-800 dark:bg-zinc-900">
+      <div className="flex flex-wrap items-center gap-4 text-sm text-zinc-700 dark:text-zinc-300">
+        <button
+          onClick={() => onPlayingChange(!isPlaying)}
+          className={`rounded-lg px-4 py-1.5 font-medium transition-colors ${
+            isPlaying
+              ? 'bg-zinc-200 text-zinc-700 hover:bg-zinc-300 dark:bg-zinc-700 dark:text-zinc-200 dark:hover:bg-zinc-600'
+              : 'bg-blue-600 text-white hover:bg-blue-700'
+          }`}
+        >
+          {isPlaying ? 'Pause' : pausedOn ? 'Resume' : 'Autoplay'}
+        </button>
+
+        <div className="flex overflow-hidden rounded-lg border border-zinc-200 text-xs dark:border-zinc-700">
+          {(Object.keys(AUTOPLAY_SPEEDS) as AutoplaySpeed[]).map((speed) => (
+            <button
+              key={speed}
+              onClick={() => onSettingsChange({ ...settings, speed })}
+              className={`px-2 py-1 transition-colors ${
+                settings.speed === speed
+                  ? 'bg-blue-600 text-white'
+                  : 'hover:bg-zinc-100 dark:hover:bg-zinc-800'
+              }`}
+            >
+              {AUTOPLAY_SPEEDS[speed].label}
+            </button>
+          ))}
+        </div>
+
+        <label className="flex items-center gap-2 text-xs">
+          Pause below
+          <select
+            value={settings.pauseBelow}
+            onChange={(e) =>
+              onSettingsChange({
+                ...settings,
+                pauseBelow: parseFloat(e.target.value),
+              })
+            }
+            className="rounded-lg border border-zinc-200 bg-white px-2 py-1 dark:border-zinc-700 dark:bg-zinc-900"
+          >
+            {AUTOPLAY_PAUSE_THRESHOLDS.map((threshold) => (
+              <option key={threshold} value={threshold}>
+                {threshold === 0 ? 'Never' : `${threshold * 100}%`}
+              </option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {pausedOn && !isPlaying && (
+        <p className="mt-2 text-xs text-amber-600 dark:text-amber-400">
+          Paused on the unlikely token &quot;{formatTokenForDisplay(pausedOn)}
+          &quot;. Resume to carry on.
+        </p>
+      )}
+    </div>
+  );
+}
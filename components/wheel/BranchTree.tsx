@@ -0,0 +1,144 @@
+'use client';
+
+import { ExplorationTree } from '@/lib/exploration';
+
+interface BranchTreeProps {
+  tree: ExplorationTree<unknown>;
+  onNodeSelect: (nodeId: number) => void;
+  isOpen: boolean;
+  onToggle: () => void;
+  disabled?: boolean;
+}
+
+interface BranchSegmentProps {
+  tree: ExplorationTree<unknown>;
+  startId: number;
+  currentPath: Set<number>;
+  onNodeSelect: (nodeId: number) => void;
+  disabled?: boolean;
+}
+
+/**
+ * Renders a run of single-child nodes as one line of text, followed by
+ * a nested list for the branches where it splits.
+ */
+function BranchSegment({
+  tree,
+  startId,
+  currentPath,
+  onNodeSelect,
+  disabled,
+}: BranchSegmentProps) {
+  const run = [tree.nodes[startId]];
+  while (run[run.length - 1].childIds.length === 1) {
+    run.push(tree.nodes[run[run.length - 1].childIds[0]]);
+  }
+  const last = run[run.length - 1];
+
+  return (
+    <>
+      <div className="font-mono text-sm break-words whitespace-pre-wrap">
+        {run.map((node) => (
+          <button
+            key={node.id}
+            onClick={() => onNodeSelect(node.id)}
+            disabled={disabled}
+            className={`rounded px-px transition-colors disabled:cursor-not-allowed ${
+              node.id === tree.currentId
+                ? 'bg-blue-100 text-blue-700 dark:bg-blue-900/40 dark:text-blue-300'
+                : currentPath.has(node.id)
+                  ? 'text-zinc-900 hover:bg-zinc-100 dark:text-zinc-100 dark:hover:bg-zinc-800'
+                  : 'text-zinc-400 hover:bg-zinc-100 dark:text-zinc-500 dark:hover:bg-zinc-800'
+            }`}
+          >
+            {node.token === null ? '▸' : node.token.replace(/\n/g, '↵')}
+          </button>
+        ))}
+      </div>
+      {last.childIds.length > 1 && (
+        <ul className="mt-1 flex flex-col gap-1 border-l-2 border-zinc-200 pl-3 dark:border-zinc-700">
+          {last.childIds.map((childId) => (
+            <li key={childId}>
+              <BranchSegment
+                tree={tree}
+                startId={childId}
+                currentPath={currentPath}
+                onNodeSelect={onNodeSelect}
+                disabled={disabled}
+              />
+            </li>
+          ))}
+        </ul>
+      )}
+    </>
+  );
+}
+
+export default function BranchTree({
+  tree,
+  onNodeSelect,
+  isOpen,
+  onToggle,
+  disabled,
+}: BranchTreeProps) {
+  // Nodes between the root and the current node
+  const currentPath = new Set<number>();
+  for (
+    let id: number | null = tree.currentId;
+    id !== null;
+    id = tree.nodes[id].parentId
+  ) {
+    currentPath.add(id);
+  }
+
+  const branchCount = tree.nodes.filter(
+    (node) => node.childIds.length === 0
+  ).length;
+
+  return (
+    <div className="overflow-hidden rounded-xl border border-zinc-100 bg-white shadow-lg dark:border-zinc-800 dark:bg-zinc-900">
+      <button
+        onClick={onToggle}
+        className="flex w-full items-center justify-between px-6 py-3 text-left transition-colors hover:bg-zinc-50 dark:hover:bg-zinc-800"
+      >
+        <span className="text-sm font-medium text-zinc-700 dark:text-zinc-300">
+          Explored Branches
+          <span className="ml-2 text-xs text-zinc-500 dark:text-zinc-400">
+            ({branchCount})
+          </span>
+        </span>
+        <svg
+          className={`h-5 w-5 text-zinc-400 transition-transform ${
+            isOpen ? 'rotate-180' : ''
+          }`}
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M19 9l-7 7-7-7"
+          />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="border-t border-zinc-100 px-6 pt-4 pb-4 dark:border-zinc-800">
+          <p className="mb-3 text-xs text-zinc-500 dark:text-zinc-400">
+            Click any token to jump back to that point and keep spinning from
+            there.
+          </p>
+          <BranchSegment
+            tree={tree}
+            startId={0}
+            currentPath={currentPath}
+            onNodeSelect={onNodeSelect}
+            disabled={disabled}
+          />
+        </div>
+      )}
+    </div>
+  );
+}
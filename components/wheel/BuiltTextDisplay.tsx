@@ -1,25 +1,144 @@
+'use client';
+
+import { KeyboardEvent, useState } from 'react';
+import {
+  formatScore,
+  getHeatColor,
+  getHeatLevel,
+  HEATMAP_METRICS,
+  HeatmapMetric,
+  scoreToken,
+  TokenChoice,
+} from '@/lib/heatmap';
+import { formatTokenForDisplay } from '@/lib/utils';
+
 interface BuiltTextDisplayProps {
   prompt: string;
+  title?: string;
   selectedTokens: string[];
+  // Distribution behind each selected token; shades the text as a heatmap
+  choices?: TokenChoice[];
+  // Rewinds to the wheel a selected token was picked on; not clickable
+  // when omitted
+  onTokenClick?: (index: number) => void;
+  // Tokens of a path rewound from, shown after the cursor
+  aheadTokens?: string[];
+  onAheadTokenClick?: (index: number) => void;
   showCursor?: boolean;
   showUndo?: boolean;
   onUndo?: () => void;
+  showRedo?: boolean;
+  onRedo?: () => void;
   onReset?: () => void;
 }
 
+// Alternatives listed when hovering a token
+const MAX_ALTERNATIVES = 10;
+
+// Makes a token span act as a button, if it has something to do
+function clickableProps(onClick?: () => void) {
+  if (!onClick) return {};
+  return {
+    role: 'button',
+    tabIndex: 0,
+    onClick,
+    onKeyDown: (e: KeyboardEvent) => {
+      if (e.key === 'Enter' || e.key === ' ') {
+        e.preventDefault();
+        onClick();
+      }
+    },
+  };
+}
+
+interface HeatmapTokenProps {
+  choice: TokenChoice;
+  metric: HeatmapMetric;
+  onClick?: () => void;
+}
+
+function HeatmapToken({ choice, metric, onClick }: HeatmapTokenProps) {
+  const score = scoreToken(choice);
+  const alternatives = Object.entries(choice.distribution)
+    .sort(([, a], [, b]) => b - a)
+    .slice(0, MAX_ALTERNATIVES);
+
+  return (
+    <span
+      tabIndex={0}
+      {...clickableProps(onClick)}
+      className={`group relative rounded-sm font-medium text-zinc-900 focus:outline-none dark:text-zinc-100 ${
+        onClick ? 'cursor-pointer hover:ring-2 hover:ring-blue-500' : ''
+      } ${
+        score.diverged
+          ? 'underline decoration-zinc-900 decoration-dashed decoration-2 underline-offset-4 dark:decoration-zinc-100'
+          : ''
+      }`}
+      style={{
+        backgroundColor: getHeatColor(
+          getHeatLevel(score, metric, Object.keys(choice.distribution).length)
+        ),
+      }}
+    >
+      {choice.token}
+      <span className="absolute top-full left-0 z-10 mt-1 hidden w-56 rounded-lg border border-zinc-200 bg-white p-3 text-xs font-normal shadow-lg group-hover:block group-focus:block dark:border-zinc-700 dark:bg-zinc-900">
+        <span className="mb-2 block text-zinc-500 dark:text-zinc-400">
+          {formatScore(score, metric)}
+          {score.diverged &&
+            ` - the model chose "${formatTokenForDisplay(choice.modelToken)}"`}
+          {onClick && '. Click to rewind here.'}
+        </span>
+        {alternatives.map(([token, probability]) => (
+          <span
+            key={token}
+            className={`flex items-center gap-2 py-0.5 ${
+              token === choice.token
+                ? 'font-medium text-zinc-900 dark:text-zinc-100'
+                : 'text-zinc-600 dark:text-zinc-400'
+            }`}
+          >
+            <span className="w-20 truncate">
+              {formatTokenForDisplay(token)}
+              {token === choice.modelToken && ' ★'}
+            </span>
+            <span className="h-1.5 flex-1 overflow-hidden rounded-full bg-zinc-100 dark:bg-zinc-800">
+              <span
+                className="block h-full bg-blue-500"
+                style={{ width: `${probability * 100}%` }}
+              />
+            </span>
+            <span className="w-12 text-right">
+              {(probability * 100).toFixed(1)}%
+            </span>
+          </span>
+        ))}
+      </span>
+    </span>
+  );
+}
+
 export default function BuiltTextDisplay({
   prompt,
+  title = 'Generated Text',
   selectedTokens,
+  choices,
+  onTokenClick,
+  aheadTokens = [],
+  onAheadTokenClick,
   showCursor = true,
   showUndo = false,
   onUndo,
+  showRedo = false,
+  onRedo,
   onReset,
 }: BuiltTextDisplayProps) {
+  const [metric, setMetric] = useState<HeatmapMetric>('probability');
+
   return (
     <div className="rounded-xl border border-zinc-100 bg-white p-6 shadow-lg dark:border-zinc-800 dark:bg-zinc-900">
       <div className="mb-3 flex items-center justify-between">
         <h2 className="text-lg font-medium text-zinc-700 dark:text-zinc-300">
-          Generated Text
+          {title}
         </h2>
         {(onUndo || onReset) && (
           <div className="flex gap-3">
@@ -31,6 +150,14 @@ export default function BuiltTextDisplay({
                 Undo
               </button>
             )}
+            {showRedo && onRedo && (
+              <button
+                onClick={onRedo}
+                className="rounded-lg bg-zinc-200 px-3 py-1.5 text-sm font-medium text-zinc-700 transition-colors hover:bg-zinc-300 dark:bg-zinc-700 dark:text-zinc-200 dark:hover:bg-zinc-600"
+              >
+                Redo
+              </button>
+            )}
             {onReset && (
               <button
                 onClick={onReset}
@@ -44,14 +171,86 @@ export default function BuiltTextDisplay({
       </div>
       <div className="min-h-15 rounded-lg bg-zinc-50 p-4 dark:bg-zinc-800">
         <span className="text-zinc-500 dark:text-zinc-400">{prompt}</span>
-        <span className="font-medium text-zinc-900 dark:text-zinc-100">
-          {selectedTokens.join('')}
-        </span>
+        {choices ? (
+          choices.map((choice, index) => (
+            <HeatmapToken
+              key={index}
+              choice={choice}
+              metric={metric}
+              onClick={onTokenClick && (() => onTokenClick(index))}
+            />
+          ))
+        ) : onTokenClick ? (
+          selectedTokens.map((token, index) => (
+            <span
+              key={index}
+              {...clickableProps(() => onTokenClick(index))}
+              title="Rewind here"
+              className="cursor-pointer rounded-sm font-medium text-zinc-900 hover:bg-blue-100 dark:text-zinc-100 dark:hover:bg-blue-900"
+            >
+              {token}
+            </span>
+          ))
+        ) : (
+          <span className="font-medium text-zinc-900 dark:text-zinc-100">
+            {selectedTokens.join('')}
+          </span>
+        )}
         {showCursor && (
           <span className="ml-0.5 inline-block h-5 w-0.5 animate-pulse bg-blue-500 align-middle" />
         )}
+        {aheadTokens.map((token, index) => (
+          <span
+            key={index}
+            {...clickableProps(
+              onAheadTokenClick && (() => onAheadTokenClick(index))
+            )}
+            title={onAheadTokenClick && 'Jump forward to here'}
+            className={`rounded-sm text-zinc-400 dark:text-zinc-500 ${
+              onAheadTokenClick
+                ? 'cursor-pointer hover:bg-zinc-200 hover:text-zinc-600 dark:hover:bg-zinc-700 dark:hover:text-zinc-300'
+                : ''
+            }`}
+          >
+            {token}
+          </span>
+        ))}
       </div>
-      <div className="text-right">
+      <div className="mt-2 flex flex-wrap items-center justify-between gap-2">
+        {choices && choices.length > 0 ? (
+          <div className="flex items-center gap-3 text-xs text-zinc-500 dark:text-zinc-400">
+            <div className="flex overflow-hidden rounded-lg border border-zinc-200 dark:border-zinc-700">
+              {HEATMAP_METRICS.map(({ metric: option, label }) => (
+                <button
+                  key={option}
+                  onClick={() => setMetric(option)}
+                  className={`px-2 py-0.5 transition-colors ${
+                    metric === option
+                      ? 'bg-blue-600 text-white'
+                      : 'hover:bg-zinc-100 dark:hover:bg-zinc-800'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            <span className="flex items-center gap-1">
+              expected
+              <span
+                className="inline-block h-2 w-12 rounded-full"
+                style={{
+                  background: `linear-gradient(to right, ${getHeatColor(0)}, ${getHeatColor(0.5)}, ${getHeatColor(1)})`,
+                }}
+              />
+              surprising
+            </span>
+            <span className="underline decoration-dashed underline-offset-4">
+              not the model&apos;s choice
+            </span>
+          </div>
+        ) : (
+          <span />
+        )}
         <span className="text-xs text-zinc-500 dark:text-zinc-400">
           {selectedTokens.length} tokens selected
         </span>
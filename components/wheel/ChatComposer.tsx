@@ -0,0 +1,70 @@
+'use client';
+
+import { useState } from 'react';
+import { GENERATION_LIMITS } from '@/lib/constants';
+import { FinishReason } from '@/lib/providers/types';
+import { FINISH_REASON_MESSAGES } from './CompletionBanner';
+
+interface ChatComposerProps {
+  tokenCount: number;
+  // Absent if the reply broke off
+  finishReason?: FinishReason;
+  onSend: (message: string) => void;
+  onReset: () => void;
+}
+
+export default function ChatComposer({
+  tokenCount,
+  finishReason,
+  onSend,
+  onReset,
+}: ChatComposerProps) {
+  const [message, setMessage] = useState('');
+
+  const handleSend = () => {
+    if (!message.trim()) return;
+    onSend(message);
+  };
+
+  return (
+    <div className="rounded-xl border border-zinc-100 bg-white p-6 shadow-lg dark:border-zinc-800 dark:bg-zinc-900">
+      <p className="mb-3 text-sm text-zinc-600 dark:text-zinc-400">
+        {finishReason && `${FINISH_REASON_MESSAGES[finishReason]} `}
+        The reply is complete after {tokenCount} tokens.
+      </p>
+      <label className="mb-2 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+        Your reply
+      </label>
+      <textarea
+        value={message}
+        onChange={(e) => setMessage(e.target.value)}
+        onKeyDown={(e) => {
+          // Enter sends, Shift+Enter starts a new line
+          if (e.key === 'Enter' && !e.shiftKey) {
+            e.preventDefault();
+            handleSend();
+          }
+        }}
+        autoFocus
+        maxLength={GENERATION_LIMITS.maxPromptLength}
+        className="h-20 w-full resize-none rounded-lg border border-zinc-200 bg-zinc-50 px-4 py-3 text-zinc-900 placeholder-zinc-400 focus:border-transparent focus:ring-2 focus:ring-blue-500 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100"
+        placeholder="Write your next message..."
+      />
+      <div className="mt-3 flex justify-end gap-3">
+        <button
+          onClick={onReset}
+          className="rounded-lg bg-zinc-200 px-4 py-2 font-medium text-zinc-700 transition-colors hover:bg-zinc-300 dark:bg-zinc-700 dark:text-zinc-300 dark:hover:bg-zinc-600"
+        >
+          Start Over
+        </button>
+        <button
+          onClick={handleSend}
+          disabled={!message.trim()}
+          className="rounded-lg bg-blue-600 px-4 py-2 font-medium text-white transition-colors hover:bg-blue-700 disabled:cursor-not-allowed disabled:bg-zinc-300 dark:disabled:bg-zinc-700"
+        >
+          Send
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,37 @@
+import { ChatMessage } from '@/lib/providers/types';
+
+interface ChatTranscriptProps {
+  // Finished turns, oldest first
+  history: ChatMessage[];
+  // The user's message the wheel is replying to
+  message: string;
+}
+
+export default function ChatTranscript({
+  history,
+  message,
+}: ChatTranscriptProps) {
+  const turns: ChatMessage[] = [...history, { role: 'user', content: message }];
+
+  return (
+    <div className="rounded-xl border border-zinc-100 bg-white p-6 shadow-lg dark:border-zinc-800 dark:bg-zinc-900">
+      <h2 className="mb-3 text-lg font-medium text-zinc-700 dark:text-zinc-300">
+        Conversation
+      </h2>
+      <div className="flex flex-col gap-2">
+        {turns.map((turn, index) => (
+          <div
+            key={index}
+            className={`max-w-[85%] rounded-lg px-4 py-2 text-sm whitespace-pre-wrap ${
+              turn.role === 'user'
+                ? 'self-end bg-blue-600 text-white'
+                : 'self-start bg-zinc-100 text-zinc-900 dark:bg-zinc-800 dark:text-zinc-100'
+            }`}
+          >
+            {turn.content}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+}
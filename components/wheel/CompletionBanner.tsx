@@ -1,11 +1,25 @@
+import { FinishReason } from '@/lib/providers/types';
+
+// Why generation ended, as told to the user
+export const FINISH_REASON_MESSAGES: Record<FinishReason, string> = {
+  length: 'The model reached the token limit.',
+  'stop-sequence': 'The model wrote one of your stop sequences.',
+  'sentence-end': 'The model finished a sentence.',
+  'end-of-text': 'The model ended the text on its own.',
+  safety: 'The safety filter stopped the model.',
+};
+
 interface CompletionBannerProps {
   tokenCount: number;
+  // Absent if the generation broke off or predates finish reasons
+  finishReason?: FinishReason;
   onReset: () => void;
   onContinue: () => void;
 }
 
 export default function CompletionBanner({
   tokenCount,
+  finishReason,
   onReset,
   onContinue,
 }: CompletionBannerProps) {
@@ -16,6 +30,7 @@ export default function CompletionBanner({
         Generation Complete!
       </h3>
       <p className="mb-4 text-sm text-green-700 dark:text-green-300">
+        {finishReason && `${FINISH_REASON_MESSAGES[finishReason]} `}
         You&apos;ve stepped through all {tokenCount} tokens.
       </p>
       <div className="flex justify-center gap-3">
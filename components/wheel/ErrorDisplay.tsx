@@ -1,11 +0,0 @@
-interface ErrorDisplayProps {
-  message: string;
-}
-
-export default function ErrorDisplay({ message }: ErrorDisplayProps) {
-  return (
-    <div className="rounded-lg border border-red-200 bg-red-50 p-4 dark:border-red-800 dark:bg-red-950">
-      <p className="text-sm text-red-700 dark:text-red-300">{message}</p>
-    </div>
-  );
-}
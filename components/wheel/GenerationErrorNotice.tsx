@@ -0,0 +1,108 @@
+'use client';
+
+import { useEffect, useState } from 'react';
+import { ERROR_AFFORDANCES, GenerationErrorCode } from '@/lib/error-codes';
+
+const ERROR_TITLES: Record<GenerationErrorCode, string> = {
+  SAFETY_BLOCK: 'Blocked by the safety filter',
+  QUOTA_EXCEEDED: 'Slow down a little',
+  UPSTREAM_TIMEOUT: 'The model timed out',
+  INVALID_INPUT: "This text can't be continued",
+  MISSING_LOGPROBS: 'No probabilities to spin',
+  INTERNAL: 'Something went wrong',
+};
+
+interface GenerationErrorNoticeProps {
+  code: GenerationErrorCode;
+  message: string;
+  // Epoch milliseconds when the client may try again, for back-off errors
+  retryAt?: number;
+  // Each action is only offered when the failed request supports it
+  onRetry?: () => void;
+  onEditPrompt?: () => void;
+  onDismiss?: () => void;
+}
+
+export default function GenerationErrorNotice({
+  code,
+  message,
+  retryAt = 0,
+  onRetry,
+  onEditPrompt,
+  onDismiss,
+}: GenerationErrorNoticeProps) {
+  const affordance = ERROR_AFFORDANCES[code];
+  const [now, setNow] = useState(() => Date.now());
+  const secondsLeft =
+    affordance === 'back-off'
+      ? Math.max(0, Math.ceil((retryAt - now) / 1000))
+      : 0;
+
+  // Tick once a second until the wait is over
+  useEffect(() => {
+    if (secondsLeft === 0) return;
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, [secondsLeft]);
+
+  const isBackOff = affordance === 'back-off';
+  const buttonClass = isBackOff
+    ? 'rounded-lg bg-amber-600 px-3 py-1.5 text-sm font-medium text-white transition-colors hover:bg-amber-700 disabled:cursor-not-allowed disabled:opacity-60'
+    : 'rounded-lg bg-red-600 px-3 py-1.5 text-sm font-medium text-white transition-colors hover:bg-red-700';
+
+  return (
+    <div
+      className={`flex flex-wrap items-center justify-between gap-3 rounded-lg border p-4 ${
+        isBackOff
+          ? 'border-amber-200 bg-amber-50 dark:border-amber-800 dark:bg-amber-950'
+          : 'border-red-200 bg-red-50 dark:border-red-800 dark:bg-red-950'
+      }`}
+    >
+      <div>
+        <p
+          className={`text-sm font-medium ${
+            isBackOff
+              ? 'text-amber-800 dark:text-amber-200'
+              : 'text-red-800 dark:text-red-200'
+          }`}
+        >
+          {ERROR_TITLES[code]}
+        </p>
+        <p
+          className={`text-sm ${
+            isBackOff
+              ? 'text-amber-700 dark:text-amber-300'
+              : 'text-red-700 dark:text-red-300'
+          }`}
+        >
+          {message}
+        </p>
+      </div>
+      <div className="flex items-center gap-3">
+        {onDismiss && (
+          <button
+            onClick={onDismiss}
+            className="text-sm text-zinc-600 hover:text-zinc-800 dark:text-zinc-400 dark:hover:text-zinc-200"
+          >
+            Dismiss
+          </button>
+        )}
+        {affordance === 'edit-prompt'
+          ? onEditPrompt && (
+              <button onClick={onEditPrompt} className={buttonClass}>
+                Edit prompt
+              </button>
+            )
+          : onRetry && (
+              <button
+                onClick={onRetry}
+                disabled={secondsLeft > 0}
+                className={buttonClass}
+              >
+                {secondsLeft > 0 ? `Try again in ${secondsLeft}s` : 'Try again'}
+              </button>
+            )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,242 @@
+import {
+  DEFAULT_SAMPLING_CONTROLS,
+  hasActiveSamplingControls,
+  SamplingControls as SamplingControlsValue,
+} from '@/lib/sampling';
+import { SAMPLING_CONTROLS_CONFIG, SpinMode } from '@/lib/constants';
+import { formatTokenForDisplay } from '@/lib/utils';
+
+interface SamplingControlsProps {
+  controls: SamplingControlsValue;
+  onControlsChange: (controls: SamplingControlsValue) => void;
+  // Shown when the model's own choice was filtered out
+  cutChosenToken?: string | null;
+  spinMode: SpinMode;
+  onSpinModeChange: (mode: SpinMode) => void;
+  spinSeed: number;
+  onSpinSeedChange: (seed: number) => void;
+  isOpen: boolean;
+  onToggle: () => void;
+  disabled?: boolean;
+}
+
+interface ControlSliderProps {
+  label: string;
+  value: number;
+  displayValue: string;
+  min: number;
+  max: number;
+  step: number;
+  onChange: (value: number) => void;
+  disabled?: boolean;
+}
+
+function ControlSlider({
+  label,
+  value,
+  displayValue,
+  min,
+  max,
+  step,
+  onChange,
+  disabled,
+}: ControlSliderProps) {
+  const percent = ((value - min) / (max - min)) * 100;
+
+  return (
+    <div>
+      <label className="mb-1 block text-sm font-medium text-zinc-700 dark:text-zinc-300">
+        {label}:{' '}
+        <span className="text-zinc-500 dark:text-zinc-400">{displayValue}</span>
+      </label>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        disabled={disabled}
+        style={{
+          background: `linear-gradient(to right, var(--range-fill) 0%, var(--range-fill) ${percent}%, var(--range-track) ${percent}%, var(--range-track) 100%)`,
+        }}
+        className="h-2 w-full cursor-pointer appearance-none rounded-lg accent-blue-600 [--range-fill:#155dfc] [--range-track:#e4e4e7] disabled:cursor-not-allowed disabled:opacity-50 dark:[--range-track:#3f3f46]"
+      />
+    </div>
+  );
+}
+
+export default function SamplingControls({
+  controls,
+  onControlsChange,
+  cutChosenToken,
+  spinMode,
+  onSpinModeChange,
+  spinSeed,
+  onSpinSeedChange,
+  isOpen,
+  onToggle,
+  disabled,
+}: SamplingControlsProps) {
+  const isActive = hasActiveSamplingControls(controls);
+  const update = (changes: Partial<SamplingControlsValue>) =>
+    onControlsChange({ ...controls, ...changes });
+
+  return (
+    <div className="overflow-hidden rounded-xl border border-zinc-100 bg-white shadow-lg dark:border-zinc-800 dark:bg-zinc-900">
+      <button
+        onClick={onToggle}
+        className="flex w-full items-center justify-between px-6 py-3 text-left transition-colors hover:bg-zinc-50 dark:hover:bg-zinc-800"
+      >
+        <span className="text-sm font-medium text-zinc-700 dark:text-zinc-300">
+          Sampling Controls
+          {isActive && (
+            <span className="ml-2 text-xs text-blue-600 dark:text-blue-400">
+              (active)
+            </span>
+          )}
+        </span>
+        <svg
+          className={`h-5 w-5 text-zinc-400 transition-transform ${
+            isOpen ? 'rotate-180' : ''
+          }`}
+          fill="none"
+          viewBox="0 0 24 24"
+          stroke="currentColor"
+        >
+          <path
+            strokeLinecap="round"
+            strokeLinejoin="round"
+            strokeWidth={2}
+            d="M19 9l-7 7-7-7"
+          />
+        </svg>
+      </button>
+
+      {isOpen && (
+        <div className="border-t border-zinc-100 px-6 pb-4 dark:border-zinc-800">
+          <div className="flex items-center justify-between pt-4">
+            <p className="text-xs text-zinc-500 dark:text-zinc-400">
+              Re-shape the wheel the way a sampler would before drawing a token.
+            </p>
+            {isActive && (
+              <button
+                onClick={() => onControlsChange(DEFAULT_SAMPLING_CONTROLS)}
+                disabled={disabled}
+                className="text-xs text-blue-600 hover:text-blue-700 disabled:cursor-not-allowed disabled:opacity-50 dark:text-blue-400 dark:hover:text-blue-300"
+              >
+                Reset
+              </button>
+            )}
+          </div>
+
+          <div className="mt-4 grid gap-4 sm:grid-cols-2">
+            <ControlSlider
+              label="Temperature"
+              value={controls.temperature}
+              displayValue={
+                controls.temperature === 0
+                  ? '0 (greedy)'
+                  : controls.temperature.toFixed(2)
+              }
+              {...SAMPLING_CONTROLS_CONFIG.temperature}
+              onChange={(temperature) => update({ temperature })}
+              disabled={disabled}
+            />
+            <ControlSlider
+              label="Top-k"
+              value={controls.topK}
+              displayValue={controls.topK === 0 ? 'off' : `${controls.topK}`}
+              {...SAMPLING_CONTROLS_CONFIG.topK}
+              onChange={(topK) => update({ topK })}
+              disabled={disabled}
+            />
+            <ControlSlider
+              label="Top-p"
+              value={controls.topP}
+              displayValue={
+                controls.topP === 1 ? 'off' : controls.topP.toFixed(2)
+              }
+              {...SAMPLING_CONTROLS_CONFIG.topP}
+              onChange={(topP) => update({ topP })}
+              disabled={disabled}
+            />
+            <ControlSlider
+              label="Min-p"
+              value={controls.minP}
+              displayValue={
+                controls.minP === 0 ? 'off' : controls.minP.toFixed(2)
+              }
+              {...SAMPLING_CONTROLS_CONFIG.minP}
+              onChange={(minP) => update({ minP })}
+              disabled={disabled}
+            />
+          </div>
+
+          {/* Spin Mode */}
+          <div className="mt-4 border-t border-zinc-100 pt-4 dark:border-zinc-800">
+            <span className="text-sm font-medium text-zinc-700 dark:text-zinc-300">
+              Spin
+            </span>
+            <div className="mt-2 grid grid-cols-2 gap-2">
+              {(
+                [
+                  ['replay', "Replay model's choice"],
+                  ['sample', 'True random spin'],
+                ] as const
+              ).map(([mode, label]) => (
+                <button
+                  key={mode}
+                  onClick={() => onSpinModeChange(mode)}
+                  disabled={disabled}
+                  className={`rounded-lg px-3 py-2 text-sm font-medium transition-colors disabled:cursor-not-allowed disabled:opacity-50 ${
+                    spinMode === mode
+                      ? 'bg-blue-600 text-white'
+                      : 'bg-zinc-100 text-zinc-700 hover:bg-zinc-200 dark:bg-zinc-800 dark:text-zinc-300 dark:hover:bg-zinc-700'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+            {spinMode === 'sample' && (
+              <div className="mt-3 flex items-center gap-3">
+                <label
+                  htmlFor="spin-seed"
+                  className="text-sm text-zinc-700 dark:text-zinc-300"
+                >
+                  Seed
+                </label>
+                <input
+                  id="spin-seed"
+                  type="number"
+                  step={1}
+                  value={spinSeed}
+                  onChange={(e) =>
+                    onSpinSeedChange(parseInt(e.target.value, 10) || 0)
+                  }
+                  disabled={disabled}
+                  className="w-28 rounded-lg border border-zinc-200 bg-zinc-50 px-2 py-1 text-sm text-zinc-900 disabled:cursor-not-allowed disabled:opacity-50 dark:border-zinc-700 dark:bg-zinc-800 dark:text-zinc-100"
+                />
+                <span className="text-xs text-zinc-500 dark:text-zinc-400">
+                  Same seed, same draws
+                </span>
+              </div>
+            )}
+          </div>
+
+          {cutChosenToken && (
+            <p className="mt-4 rounded-lg bg-amber-50 px-3 py-2 text-xs text-amber-800 dark:bg-amber-950 dark:text-amber-200">
+              The model&apos;s choice{' '}
+              <span className="font-mono font-semibold">
+                {formatTokenForDisplay(cutChosenToken)}
+              </span>{' '}
+              was cut off, so the wheel will land on the most likely remaining
+              token instead.
+            </p>
+          )}
+        </div>
+      )}
+    </div>
+  );
+}
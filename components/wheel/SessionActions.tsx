@@ -0,0 +1,68 @@
+'use client';
+
+import { useState } from 'react';
+import { encodeSessionFragment, WheelSession } from '@/lib/session';
+
+interface SessionActionsProps {
+  // Builds the session from the current wheel state
+  getSession: () => WheelSession | null;
+}
+
+export default function SessionActions({ getSession }: SessionActionsProps) {
+  const [status, setStatus] = useState<string | null>(null);
+
+  // Download the session as a JSON file
+  const handleExport = () => {
+    const session = getSession();
+    if (!session) return;
+
+    const url = URL.createObjectURL(
+      new Blob([JSON.stringify(session, null, 2)], {
+        type: 'application/json',
+      })
+    );
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = 'tokenwheel-session.json';
+    link.click();
+    URL.revokeObjectURL(url);
+  };
+
+  // Copy a link that restores the session from the URL fragment
+  const handleShare = async () => {
+    const session = getSession();
+    if (!session) return;
+
+    try {
+      const fragment = await encodeSessionFragment(session);
+      await navigator.clipboard.writeText(
+        `${window.location.origin}/wheel#${fragment}`
+      );
+      setStatus('Link copied to clipboard');
+    } catch {
+      setStatus('Could not copy the link');
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center justify-end gap-3 px-1 text-sm">
+      {status && (
+        <span className="text-xs text-zinc-500 dark:text-zinc-400">
+          {status}
+        </span>
+      )}
+      <button
+        onClick={handleExport}
+        className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+      >
+        Export session
+      </button>
+      <button
+        onClick={handleShare}
+        className="text-blue-600 hover:text-blue-700 dark:text-blue-400 dark:hover:text-blue-300"
+      >
+        Copy share link
+      </button>
+    </div>
+  );
+}
@@ -1,9 +1,24 @@
 'use client';
 
-import { formatTokenForDisplay, WedgeData } from '@/lib/utils';
+import { KeyboardEvent } from 'react';
+import {
+  formatTokenForDisplay,
+  formatTokenForSpeech,
+  RESIDUAL_TOKEN,
+  WedgeData,
+} from '@/lib/utils';
+import { LEGEND_TOKEN_COUNT } from '@/lib/constants';
+import { RemovedToken } from '@/lib/sampling';
 
 interface TokenLegendProps {
   wedges: WedgeData[];
+  removedTokens?: RemovedToken[];
+  // Shannon entropy of the position in bits
+  entropy?: number;
+  // Probability mass outside the top candidates
+  residualMass?: number;
+  showResidual?: boolean;
+  onShowResidualChange?: (show: boolean) => void;
   selectedToken: string | null;
   onTokenClick: (token: string) => void;
   disabled: boolean;
@@ -11,50 +26,163 @@ interface TokenLegendProps {
 
 export default function TokenLegend({
   wedges,
+  removedTokens = [],
+  entropy,
+  residualMass = 0,
+  showResidual = false,
+  onShowResidualChange,
   selectedToken,
   onTokenClick,
   disabled,
 }: TokenLegendProps) {
+  const listed = wedges.slice(0, LEGEND_TOKEN_COUNT);
+
+  // Number keys pick entries; the arrow keys move between them
+  const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+    if (e.ctrlKey || e.metaKey || e.altKey) return;
+
+    if (/^[1-9]$/.test(e.key)) {
+      const wedge = listed[Number(e.key) - 1];
+      if (
+        wedge &&
+        wedge.token !== RESIDUAL_TOKEN &&
+        !disabled &&
+        selectedToken === null
+      ) {
+        e.preventDefault();
+        onTokenClick(wedge.token);
+      }
+      return;
+    }
+
+    if (e.key !== 'ArrowDown' && e.key !== 'ArrowUp') return;
+    e.preventDefault();
+    const buttons = Array.from(
+      e.currentTarget.querySelectorAll<HTMLButtonElement>('button:enabled')
+    );
+    const index = buttons.indexOf(e.target as HTMLButtonElement);
+    const offset = e.key === 'ArrowDown' ? 1 : -1;
+    buttons.at((index + offset + buttons.length) % buttons.length)?.focus();
+  };
+
   return (
     <div className="w-full rounded-xl border border-zinc-100 bg-white p-6 shadow-lg dark:border-zinc-800 dark:bg-zinc-900">
       <h3 className="mb-3 text-sm font-medium text-zinc-600 dark:text-zinc-400">
         Token Probabilities
       </h3>
+
+      {/* Uncertainty at this position */}
+      {entropy !== undefined && (
+        <div className="mb-3 flex flex-wrap gap-x-4 gap-y-1 text-xs text-zinc-500 dark:text-zinc-400">
+          <span>Entropy: {entropy.toFixed(2)} bits</span>
+          <span>Outside top-k: {(residualMass * 100).toFixed(1)}%</span>
+        </div>
+      )}
+
       {/* Token buttons */}
-      <div className="flex flex-col gap-2">
-        {wedges.slice(0, 8).map((wedge) => (
-          <button
-            key={wedge.token}
-            onClick={() => onTokenClick(wedge.token)}
-            disabled={
-              disabled ||
-              (selectedToken !== null && selectedToken !== wedge.token)
-            }
-            className={`flex items-center gap-2 rounded-lg bg-zinc-50 px-3 py-1.5 text-sm transition-all duration-200 dark:bg-zinc-800 ${
-              selectedToken === wedge.token
-                ? 'ring-2 ring-yellow-500 ring-offset-1 ring-offset-white dark:ring-offset-zinc-900'
-                : ''
-            } ${
-              disabled
-                ? 'cursor-not-allowed opacity-50'
-                : 'cursor-pointer hover:bg-zinc-100 dark:hover:bg-zinc-700'
-            } `}
-          >
-            <span
-              className="h-4 w-4 shrink-0 rounded"
-              style={{
-                backgroundColor: wedge.color,
-              }}
-            />
-            <span className="max-w-24 truncate font-mono text-zinc-700 dark:text-zinc-300">
-              {formatTokenForDisplay(wedge.token)}
-            </span>
-            <span className="ml-auto text-zinc-400 dark:text-zinc-500">
-              {(wedge.probability * 100).toFixed(1)}%
-            </span>
-          </button>
-        ))}
+      <div
+        role="group"
+        aria-label="Token probabilities"
+        onKeyDown={handleKeyDown}
+        className="flex flex-col gap-2"
+      >
+        {listed.map((wedge, index) =>
+          wedge.token === RESIDUAL_TOKEN ? (
+            <div
+              key={wedge.token}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm text-zinc-400 dark:text-zinc-500"
+            >
+              <span className="w-3 shrink-0" />
+              <span
+                className="h-4 w-4 shrink-0 rounded"
+                style={{
+                  backgroundColor: wedge.color,
+                }}
+              />
+              <span className="italic">everything else</span>
+              <span className="ml-auto">
+                {(wedge.probability * 100).toFixed(1)}%
+              </span>
+            </div>
+          ) : (
+            <button
+              key={wedge.token}
+              onClick={() => onTokenClick(wedge.token)}
+              aria-label={`${formatTokenForSpeech(wedge.token)}, ${(wedge.probability * 100).toFixed(1)}%`}
+              aria-keyshortcuts={String(index + 1)}
+              disabled={
+                disabled ||
+                (selectedToken !== null && selectedToken !== wedge.token)
+              }
+              className={`flex items-center gap-2 rounded-lg bg-zinc-50 px-3 py-1.5 text-sm transition-all duration-200 dark:bg-zinc-800 ${
+                selectedToken === wedge.token
+                  ? 'ring-2 ring-yellow-500 ring-offset-1 ring-offset-white dark:ring-offset-zinc-900'
+                  : ''
+              } ${
+                disabled
+                  ? 'cursor-not-allowed opacity-50'
+                  : 'cursor-pointer hover:bg-zinc-100 dark:hover:bg-zinc-700'
+              } `}
+            >
+              <span className="w-3 shrink-0 text-xs text-zinc-400 dark:text-zinc-500">
+                {index + 1}
+              </span>
+              <span
+                className="h-4 w-4 shrink-0 rounded"
+                style={{
+                  backgroundColor: wedge.color,
+                }}
+              />
+              <span className="max-w-24 truncate font-mono text-zinc-700 dark:text-zinc-300">
+                {formatTokenForDisplay(wedge.token)}
+              </span>
+              <span className="ml-auto text-zinc-400 dark:text-zinc-500">
+                {(wedge.probability * 100).toFixed(1)}%
+              </span>
+            </button>
+          )
+        )}
       </div>
+
+      {/* Toggle for the residual "everything else" wedge */}
+      {onShowResidualChange && (
+        <label className="mt-3 flex cursor-pointer items-center gap-2 text-xs text-zinc-500 dark:text-zinc-400">
+          <input
+            type="checkbox"
+            checked={showResidual}
+            onChange={(e) => onShowResidualChange(e.target.checked)}
+            className="accent-blue-600"
+          />
+          Show mass outside the top-k on the wheel
+        </label>
+      )}
+
+      {/* Tokens removed by the sampling controls */}
+      {removedTokens.length > 0 && (
+        <div className="mt-4 border-t border-zinc-100 pt-3 dark:border-zinc-800">
+          <h4 className="mb-2 text-xs font-medium text-zinc-500 dark:text-zinc-400">
+            Cut off by sampling
+          </h4>
+          <div className="flex flex-col gap-1">
+            {removedTokens.map(({ token, probability, reason }) => (
+              <div
+                key={token}
+                className="flex items-center gap-2 px-3 text-xs text-zinc-400 dark:text-zinc-500"
+              >
+                <span className="max-w-24 truncate font-mono line-through">
+                  {formatTokenForDisplay(token)}
+                </span>
+                <span className="rounded bg-zinc-100 px-1.5 py-0.5 dark:bg-zinc-800">
+                  {reason}
+                </span>
+                <span className="ml-auto">
+                  {(probability * 100).toFixed(1)}%
+                </span>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
     </div>
   );
 }
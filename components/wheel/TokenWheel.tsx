@@ -8,14 +8,27 @@ import {
   forwardRef,
   useImperativeHandle,
   useMemo,
+  useSyncExternalStore,
+  KeyboardEvent,
 } from 'react';
 import {
   convertLogprobsToWedges,
   formatTokenForDisplay,
+  formatTokenForSpeech,
   createWedgePath,
   calculateTargetRotation,
+  sampleWedge,
+  RESIDUAL_TOKEN,
   WedgeData,
 } from '@/lib/utils';
+import { LEGEND_TOKEN_COUNT, SpinMode } from '@/lib/constants';
+import {
+  countBoundaryCrossings,
+  DEFAULT_WHEEL_ANIMATION,
+  frictionProgress,
+  SPIN_EASINGS,
+  WheelAnimationSettings,
+} from '@/lib/wheel-animation';
 
 export interface TokenWheelHandle {
   triggerWedgeClick: (token: string) => void;
@@ -23,25 +36,76 @@ export interface TokenWheelHandle {
 
 interface TokenWheelProps {
   logprobs: Record<string, number>;
+  colors?: Record<string, string>;
+  // Mass outside the top candidates, drawn as a grey "other" wedge
+  residualMass?: number;
   chosenToken: string;
   onTokenSelect: (token: string) => void;
   onSelectedTokenChange?: (token: string | null) => void;
   onWedgesChange?: (wedges: WedgeData[]) => void;
   onDivergingTokenClick?: (token: string) => void;
+  onSpinningChange?: (isSpinning: boolean) => void;
+  // 'sample' draws the spin result from the wedges instead of replaying chosenToken
+  spinMode?: SpinMode;
+  random?: () => number;
+  // Timing, easing and physics of the spin
+  animation?: WheelAnimationSettings;
+  // Spin on its own whenever the wheel is idle
+  autoSpin?: boolean;
+  // Keep a result below this probability up until it is dismissed
+  holdBelow?: number;
+  onResultHeld?: (token: string) => void;
   disabled?: boolean;
   currentPosition?: number;
   totalPositions?: number;
 }
 
+// Pause before an automatic spin, so each new wheel is seen standing still
+const AUTO_SPIN_DELAY_MS = 400;
+
+// How long the result takes to appear when motion is reduced
+const REDUCED_MOTION_DELAY_MS = 150;
+
+// How far a wedge boundary knocks the pointer, and how much of the knock is
+// left after each frame
+const POINTER_TICK_DEGREES = -20;
+const POINTER_TICK_DECAY = 0.6;
+
+const REDUCED_MOTION_QUERY = '(prefers-reduced-motion: reduce)';
+
+function subscribeToReducedMotion(onChange: () => void) {
+  const query = window.matchMedia(REDUCED_MOTION_QUERY);
+  query.addEventListener('change', onChange);
+  return () => query.removeEventListener('change', onChange);
+}
+
+// Whether the system asks for reduced motion
+function usePrefersReducedMotion() {
+  return useSyncExternalStore(
+    subscribeToReducedMotion,
+    () => window.matchMedia(REDUCED_MOTION_QUERY).matches,
+    () => false
+  );
+}
+
 const TokenWheel = forwardRef<TokenWheelHandle, TokenWheelProps>(
   (
     {
       logprobs,
+      colors,
+      residualMass = 0,
       chosenToken,
       onTokenSelect,
       onSelectedTokenChange,
       onWedgesChange,
       onDivergingTokenClick,
+      onSpinningChange,
+      spinMode = 'replay',
+      random,
+      animation = DEFAULT_WHEEL_ANIMATION,
+      autoSpin = false,
+      holdBelow = 0,
+      onResultHeld,
       disabled = false,
       currentPosition,
       totalPositions,
@@ -55,13 +119,33 @@ const TokenWheel = forwardRef<TokenWheelHandle, TokenWheelProps>(
     const [showResultPopup, setShowResultPopup] = useState(false);
     const [skipAnimation, setSkipAnimation] = useState(false);
     const [targetRotation, setTargetRotation] = useState<number | null>(null);
+    // The result is staying up until dismissed
+    const [isResultHeld, setIsResultHeld] = useState(false);
+    // Pointer knocked aside by passing wedge boundaries, in degrees
+    const [pointerTilt, setPointerTilt] = useState(0);
+    // Wedge reached with Tab; the arrow keys move between the others
+    const [focusedToken, setFocusedToken] = useState<string | null>(null);
+    // Read out by screen readers whenever it changes
+    const [announcement, setAnnouncement] = useState('');
+
+    const { spinDurationMs, resultDelayMs } = animation;
+    const prefersReducedMotion = usePrefersReducedMotion();
+    const reducedMotion =
+      animation.motion === 'reduced' ||
+      (animation.motion === 'system' && prefersReducedMotion);
 
     // Refs to always access latest values in callbacks (avoids stale closures)
     const chosenTokenRef = useRef(chosenToken);
     const onTokenSelectRef = useRef(onTokenSelect);
     const onDivergingTokenClickRef = useRef(onDivergingTokenClick);
+    const onResultHeldRef = useRef(onResultHeld);
+    const spinTargetRef = useRef(chosenToken);
     const timeoutRef = useRef<NodeJS.Timeout | null>(null);
     const popupTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+    // Animation frame of a friction spin in progress
+    const spinFrameRef = useRef<number | null>(null);
+    const spinButtonRef = useRef<SVGCircleElement>(null);
+    const wedgeRefs = useRef(new Map<string, SVGPathElement>());
     const mountedRef = useRef(true);
 
     // Update refs on every render to keep them current
@@ -69,7 +153,8 @@ const TokenWheel = forwardRef<TokenWheelHandle, TokenWheelProps>(
       chosenTokenRef.current = chosenToken;
       onTokenSelectRef.current = onTokenSelect;
       onDivergingTokenClickRef.current = onDivergingTokenClick;
-    }, [chosenToken, onTokenSelect, onDivergingTokenClick]);
+      onResultHeldRef.current = onResultHeld;
+    }, [chosenToken, onTokenSelect, onDivergingTokenClick, onResultHeld]);
 
     // Cleanup on unmount
     useEffect(() => {
@@ -82,17 +167,57 @@ const TokenWheel = forwardRef<TokenWheelHandle, TokenWheelProps>(
         if (popupTimeoutRef.current) {
           clearTimeout(popupTimeoutRef.current);
         }
+        if (spinFrameRef.current !== null) {
+          cancelAnimationFrame(spinFrameRef.current);
+        }
       };
     }, []);
 
     // Convert logprobs to wedge data (memoized to prevent infinite loops)
-    const wedges = useMemo(() => convertLogprobsToWedges(logprobs), [logprobs]);
+    const wedges = useMemo(
+      () => convertLogprobsToWedges(logprobs, colors, residualMass),
+      [logprobs, colors, residualMass]
+    );
 
     // Notify parent of wedges change
     useEffect(() => {
       onWedgesChange?.(wedges);
     }, [wedges, onWedgesChange]);
 
+    // Take over focus lost when the previous wheel or wedge went away, so
+    // the keyboard keeps working without a click
+    useEffect(() => {
+      if (document.activeElement === document.body) {
+        spinButtonRef.current?.focus({ preventScroll: true });
+      }
+    }, [wedges]);
+
+    // Wedges in keyboard order; the residual wedge can't be picked
+    const focusableWedges = useMemo(
+      () => wedges.filter((w) => w.angle >= 1 && w.token !== RESIDUAL_TOKEN),
+      [wedges]
+    );
+    const tabbableToken = focusableWedges.some((w) => w.token === focusedToken)
+      ? focusedToken
+      : focusableWedges[0]?.token;
+
+    // How a wedge is read out, e.g. "cat, 42.0%"
+    const describeToken = useCallback(
+      (token: string) => {
+        const probability =
+          wedges.find((w) => w.token === token)?.probability ?? 0;
+        return `${formatTokenForSpeech(token)}, ${(probability * 100).toFixed(1)}%${
+          token !== chosenToken ? ", not the model's choice" : ''
+        }`;
+      },
+      [wedges, chosenToken]
+    );
+
+    // Notify parent of spinning state change
+    useEffect(() => {
+      onSpinningChange?.(isSpinning);
+    }, [isSpinning, onSpinningChange]);
+
     // Notify parent of selected token change
     useEffect(() => {
       onSelectedTokenChange?.(selectedToken);
@@ -108,19 +233,27 @@ const TokenWheel = forwardRef<TokenWheelHandle, TokenWheelProps>(
     const completeSpinAnimation = useCallback(() => {
       if (!mountedRef.current) return;
 
-      const token = chosenTokenRef.current;
+      const token = spinTargetRef.current;
       setSelectedToken(token);
       setIsSpinning(false);
       setShowResultPopup(true);
+      setAnnouncement(`Landed on ${describeToken(token)}`);
+
+      // An unlikely result waits to be dismissed
+      if ((logprobs[token] ?? 0) < holdBelow) {
+        setIsResultHeld(true);
+        onResultHeldRef.current?.(token);
+        return;
+      }
 
-      // Auto-dismiss popup after 3.5 seconds
+      // Auto-dismiss popup after the result delay
       popupTimeoutRef.current = setTimeout(() => {
         if (mountedRef.current && token) {
           setShowResultPopup(false);
           onTokenSelectRef.current(token);
         }
-      }, 3500);
-    }, []);
+      }, resultDelayMs);
+    }, [logprobs, holdBelow, resultDelayMs, describeToken]);
 
     // Dismiss popup and proceed to next step
     const dismissPopupAndProceed = useCallback(() => {
@@ -129,6 +262,7 @@ const TokenWheel = forwardRef<TokenWheelHandle, TokenWheelProps>(
         popupTimeoutRef.current = null;
       }
       setShowResultPopup(false);
+      setIsResultHeld(false);
       if (selectedToken) {
         onTokenSelectRef.current(selectedToken);
       }
@@ -140,8 +274,13 @@ const TokenWheel = forwardRef<TokenWheelHandle, TokenWheelProps>(
         clearTimeout(timeoutRef.current);
         timeoutRef.current = null;
       }
+      if (spinFrameRef.current !== null) {
+        cancelAnimationFrame(spinFrameRef.current);
+        spinFrameRef.current = null;
+      }
 
       setSkipAnimation(true);
+      setPointerTilt(0);
 
       // Use requestAnimationFrame to ensure skip happens after state update
       requestAnimationFrame(() => {
@@ -167,19 +306,110 @@ const TokenWheel = forwardRef<TokenWheelHandle, TokenWheelProps>(
       setShowResultPopup(false);
       setSkipAnimation(false);
 
+      // Replay the model's choice, or draw a token from the wheel itself
+      const targetToken =
+        spinMode === 'sample'
+          ? sampleWedge(wedges, random).token
+          : chosenTokenRef.current;
+      spinTargetRef.current = targetToken;
+
+      // Start regenerating early if the draw diverges from the model
+      if (
+        targetToken !== chosenTokenRef.current &&
+        onDivergingTokenClickRef.current
+      ) {
+        onDivergingTokenClickRef.current(targetToken);
+      }
+
       const newTargetRotation = calculateTargetRotation(
         wedges,
-        chosenTokenRef.current,
-        rotation
+        targetToken,
+        rotation,
+        { min: animation.minRotations, extra: animation.extraRotations }
       );
       setTargetRotation(newTargetRotation);
+
+      // Reduced motion: land straight away
+      if (reducedMotion) {
+        setSkipAnimation(true);
+        setRotation(newTargetRotation);
+        timeoutRef.current = setTimeout(
+          completeSpinAnimation,
+          REDUCED_MOTION_DELAY_MS
+        );
+        return;
+      }
+
+      // Friction: turn the wheel frame by frame, ticking the pointer over
+      // every wedge boundary it passes
+      if (animation.physics === 'friction') {
+        const boundaries = wedges.map((w) => w.startAngle);
+        const from = rotation;
+        let last = from;
+        let startTime: number | null = null;
+        const step = (now: number) => {
+          startTime ??= now;
+          const progress = (now - startTime) / spinDurationMs;
+          const current =
+            from + (newTargetRotation - from) * frictionProgress(progress);
+          const crossed = countBoundaryCrossings(boundaries, last, current);
+          last = current;
+          setRotation(current);
+          setPointerTilt((tilt) =>
+            crossed > 0 ? POINTER_TICK_DEGREES : tilt * POINTER_TICK_DECAY
+          );
+
+          if (progress < 1) {
+            spinFrameRef.current = requestAnimationFrame(step);
+          } else {
+            spinFrameRef.current = null;
+            setPointerTilt(0);
+            completeSpinAnimation();
+          }
+        };
+        spinFrameRef.current = requestAnimationFrame(step);
+        return;
+      }
+
       setRotation(newTargetRotation);
 
-      // Wait for animation to complete (4 seconds)
+      // Wait for animation to complete
       timeoutRef.current = setTimeout(() => {
         completeSpinAnimation();
-      }, 4000);
-    }, [isSpinning, disabled, wedges, rotation, completeSpinAnimation]);
+      }, spinDurationMs);
+    }, [
+      isSpinning,
+      disabled,
+      spinMode,
+      random,
+      wedges,
+      rotation,
+      animation,
+      reducedMotion,
+      spinDurationMs,
+      completeSpinAnimation,
+    ]);
+
+    // Autoplay: spin an idle wheel, and carry on past a held result
+    useEffect(() => {
+      if (!autoSpin || disabled || isSpinning) return;
+      if (!isResultHeld && (showResultPopup || selectedToken !== null)) return;
+
+      const timeout = setTimeout(
+        isResultHeld ? dismissPopupAndProceed : handleSpin,
+        AUTO_SPIN_DELAY_MS
+      );
+      return () => clearTimeout(timeout);
+    }, [
+      autoSpin,
+      disabled,
+      isSpinning,
+      isResultHeld,
+      showResultPopup,
+      selectedToken,
+      dismissPopupAndProceed,
+      handleSpin,
+    ]);
 
     // Unified interaction handler for click/space
     const handleInteraction = useCallback(() => {
@@ -199,22 +429,11 @@ const TokenWheel = forwardRef<TokenWheelHandle, TokenWheelProps>(
       handleSpin,
     ]);
 
-    // Keyboard event listener for Space key
-    useEffect(() => {
-      const handleKeyDown = (e: KeyboardEvent) => {
-        if (e.code === 'Space' && !e.repeat) {
-          e.preventDefault();
-          handleInteraction();
-        }
-      };
-      window.addEventListener('keydown', handleKeyDown);
-      return () => window.removeEventListener('keydown', handleKeyDown);
-    }, [handleInteraction]);
-
     // Handle wedge click (manual selection) - show confirmation popup
     const handleWedgeClick = useCallback(
       (token: string) => {
-        if (isSpinning || disabled) return;
+        // The residual wedge has no concrete token to continue with
+        if (isSpinning || disabled || token === RESIDUAL_TOKEN) return;
 
         // Immediately notify parent if diverging token (for eager regeneration)
         if (
@@ -226,25 +445,101 @@ const TokenWheel = forwardRef<TokenWheelHandle, TokenWheelProps>(
 
         setSelectedToken(token);
         setShowResultPopup(true);
+        setAnnouncement(`Selected ${describeToken(token)}`);
 
-        // Auto-dismiss and proceed after 3.5s
+        // Auto-dismiss and proceed after the result delay
         popupTimeoutRef.current = setTimeout(() => {
           if (mountedRef.current) {
             setShowResultPopup(false);
             onTokenSelectRef.current(token);
           }
-        }, 3500);
+        }, resultDelayMs);
       },
-      [isSpinning, disabled]
+      [isSpinning, disabled, resultDelayMs, describeToken]
     );
 
+    // Move focus along the wedges, wrapping around the wheel; from the
+    // spin button, the arrows enter at the tabbable wedge
+    const focusWedge = useCallback(
+      (from: string | null, offset: number) => {
+        const count = focusableWedges.length;
+        if (count === 0) return;
+        const index = focusableWedges.findIndex((w) => w.token === from);
+        const next =
+          index === -1
+            ? (focusableWedges.find((w) => w.token === tabbableToken) ??
+              focusableWedges[0])
+            : focusableWedges[(index + offset + count) % count];
+        wedgeRefs.current.get(next.token)?.focus();
+      },
+      [focusableWedges, tabbableToken]
+    );
+
+    // Keys work while focus is anywhere on the wheel: Space or Enter spins,
+    // skips or continues - or picks the focused wedge - the arrow keys move
+    // between wedges and the number keys pick legend entries
+    const handleKeyDown = (e: KeyboardEvent<HTMLDivElement>) => {
+      if (e.ctrlKey || e.metaKey || e.altKey) return;
+      const token = (e.target as Element).getAttribute('data-token');
+
+      if (/^[1-9]$/.test(e.key)) {
+        const wedge = wedges.slice(0, LEGEND_TOKEN_COUNT)[Number(e.key) - 1];
+        if (wedge && !showResultPopup) {
+          e.preventDefault();
+          handleWedgeClick(wedge.token);
+        }
+        return;
+      }
+
+      switch (e.key) {
+        case 'ArrowRight':
+        case 'ArrowDown':
+          e.preventDefault();
+          focusWedge(token, 1);
+          break;
+        case 'ArrowLeft':
+        case 'ArrowUp':
+          e.preventDefault();
+          focusWedge(token, -1);
+          break;
+        case 'Home':
+        case 'End':
+          if (token === null || focusableWedges.length === 0) return;
+          e.preventDefault();
+          wedgeRefs.current
+            .get(focusableWedges.at(e.key === 'Home' ? 0 : -1)!.token)
+            ?.focus();
+          break;
+        case ' ':
+        case 'Enter':
+          e.preventDefault();
+          if (e.repeat) return;
+          if (token !== null && !isSpinning && !showResultPopup) {
+            handleWedgeClick(token);
+          } else {
+            handleInteraction();
+          }
+          break;
+      }
+    };
+
     // Expose methods to parent via ref
     useImperativeHandle(ref, () => ({
       triggerWedgeClick: handleWedgeClick,
     }));
 
     return (
-      <div className="flex w-full flex-col items-center gap-4 rounded-xl border border-zinc-100 bg-white p-6 shadow-lg dark:border-zinc-800 dark:bg-zinc-900">
+      <div
+        role="group"
+        aria-label="Token wheel"
+        onKeyDown={handleKeyDown}
+        className="flex w-full flex-col items-center gap-4 rounded-xl border border-zinc-100 bg-white p-6 shadow-lg dark:border-zinc-800 dark:bg-zinc-900"
+      >
+        {/* Spin results, read out by screen readers */}
+        <div role="status" aria-live="polite" className="sr-only">
+          {announcement}
+        </div>
+
         {/* Position indicator */}
         {currentPosition !== undefined && totalPositions !== undefined && (
           <div className="text-xs text-zinc-500 dark:text-zinc-400">
@@ -302,6 +597,8 @@ const TokenWheel = forwardRef<TokenWheelHandle, TokenWheelProps>(
                   style={{
                     width: 0,
                     height: 0,
+                    transform: `rotate(${pointerTilt}deg)`,
+                    transformOrigin: 'top center',
                     borderLeft: '15px solid transparent',
                     borderRight: '15px solid transparent',
                     borderTop: '25px solid #e74c3c',
@@ -333,14 +630,17 @@ const TokenWheel = forwardRef<TokenWheelHandle, TokenWheelProps>(
                     transform: `rotate(${rotation}deg)`,
                     transformOrigin: `${center}px ${center}px`,
                     transition:
-                      isSpinning && !skipAnimation
-                        ? 'transform 4s cubic-bezier(0.15, 0.5, 0.2, 1)'
+                      isSpinning &&
+                      !skipAnimation &&
+                      animation.physics === 'easing'
+                        ? `transform ${spinDurationMs}ms ${SPIN_EASINGS[animation.easing].css}`
                         : 'none',
                   }}
                 >
                   {/* Wedges */}
                   {wedges.map((wedge) => {
                     const isSelected = selectedToken === wedge.token;
+                    const isResidual = wedge.token === RESIDUAL_TOKEN;
                     const color = wedge.color;
 
                     // Skip tiny wedges (less than 1 degree)
@@ -350,6 +650,20 @@ const TokenWheel = forwardRef<TokenWheelHandle, TokenWheelProps>(
                       <g key={wedge.token}>
                         {/* Wedge path */}
                         <path
+                          ref={(el) => {
+                            if (el) wedgeRefs.current.set(wedge.token, el);
+                            else wedgeRefs.current.delete(wedge.token);
+                          }}
+                          {...(!isResidual && {
+                            role: 'button',
+                            tabIndex: wedge.token === tabbableToken ? 0 : -1,
+                            'aria-label': describeToken(wedge.token),
+                            'aria-disabled': isSpinning || disabled,
+                            'data-token': wedge.token,
+                          })}
+                          aria-hidden={isResidual || undefined}
+                          onFocus={() => setFocusedToken(wedge.token)}
+                          className="outline-none focus-visible:stroke-white focus-visible:stroke-[4]"
                           d={createWedgePath(
                             center,
                             center,
@@ -362,12 +676,15 @@ const TokenWheel = forwardRef<TokenWheelHandle, TokenWheelProps>(
                           strokeWidth="1.5"
                           style={{
                             filter: isSelected ? 'brightness(1.2)' : 'none',
-                            cursor: disabled ? 'not-allowed' : 'pointer',
+                            cursor:
+                              disabled || isResidual
+                                ? 'not-allowed'
+                                : 'pointer',
                             transition: 'filter 0.2s ease',
                           }}
                           onClick={() => handleWedgeClick(wedge.token)}
                           onMouseEnter={(e) => {
-                            if (!isSpinning && !disabled) {
+                            if (!isSpinning && !disabled && !isResidual) {
                               e.currentTarget.style.filter = 'brightness(1.15)';
                             }
                           }}
@@ -407,6 +724,7 @@ const TokenWheel = forwardRef<TokenWheelHandle, TokenWheelProps>(
                             fontSize={wedge.angle > 40 ? 14 : 11}
                             fontWeight="600"
                             className="pointer-events-none select-none"
+                            aria-hidden
                             style={{
                               textShadow: '0 1px 2px rgba(0,0,0,0.5)',
                             }}
@@ -432,6 +750,18 @@ const TokenWheel = forwardRef<TokenWheelHandle, TokenWheelProps>(
 
                 {/* Center button */}
                 <circle
+                  ref={spinButtonRef}
+                  role="button"
+                  tabIndex={0}
+                  aria-label={
+                    isSpinning
+                      ? 'Skip the spin'
+                      : showResultPopup
+                        ? 'Continue'
+                        : 'Spin the wheel'
+                  }
+                  aria-disabled={disabled && !isSpinning && !showResultPopup}
+                  className="outline-none focus-visible:stroke-white focus-visible:stroke-[4]"
                   cx={center}
                   cy={center}
                   r={innerRadius - 5}
@@ -463,6 +793,7 @@ const TokenWheel = forwardRef<TokenWheelHandle, TokenWheelProps>(
                   fontSize="16"
                   fontWeight="700"
                   className="pointer-events-none select-none"
+                  aria-hidden
                 >
                   {isSpinning ? '...' : 'SPIN'}
                 </text>
@@ -475,7 +806,9 @@ const TokenWheel = forwardRef<TokenWheelHandle, TokenWheelProps>(
                 className="absolute inset-0 z-20 flex cursor-pointer items-center justify-center"
                 onClick={dismissPopupAndProceed}
               >
-                <div className="animate-popup rounded-xl border-2 border-yellow-900 bg-yellow-400 p-6 shadow-lg dark:border-yellow-100 dark:bg-yellow-600">
+                <div
+                  className={`${reducedMotion ? '' : 'animate-popup'} rounded-xl border-2 border-yellow-900 bg-yellow-400 p-6 shadow-lg dark:border-yellow-100 dark:bg-yellow-600`}
+                >
                   <div className="text-center">
                     <div className="mb-2 text-sm text-yellow-950 dark:text-yellow-50">
                       Selected Token
@@ -483,6 +816,11 @@ const TokenWheel = forwardRef<TokenWheelHandle, TokenWheelProps>(
                     <div className="font-mono text-3xl font-bold text-yellow-800 dark:text-yellow-200">
                       {formatTokenForDisplay(selectedToken)}
                     </div>
+                    {selectedToken !== chosenToken && (
+                      <div className="mt-2 text-xs font-medium text-yellow-900 dark:text-yellow-100">
+                        Differs from the model&apos;s choice
+                      </div>
+                    )}
                     <div className="mt-3 text-xs text-yellow-950 dark:text-yellow-50">
                       Click or press Space to continue
                     </div>
@@ -499,7 +837,7 @@ const TokenWheel = forwardRef<TokenWheelHandle, TokenWheelProps>(
             ? 'Click or press Space to skip'
             : showResultPopup
               ? 'Click or press Space to continue'
-              : 'Press Space or click SPIN · Click wedge to select directly'}
+              : `Press Space or click SPIN · Click a wedge, or press 1-${LEGEND_TOKEN_COUNT}, to select directly · Arrow keys move between wedges`}
         </div>
       </div>
     );
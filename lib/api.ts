@@ -0,0 +1,297 @@
+/**
+ * Client helpers for the /api/generate endpoints.
+ */
+
+import { GENERATION_RETRY_CONFIG, STORAGE_KEYS } from './constants';
+import { PositionLogprobs } from './logprobs';
+import { FinishReason } from './providers/types';
+import {
+  DEFAULT_RETRY_AFTER_SECONDS,
+  GENERATION_ERROR_CODES,
+  GenerationErrorCode,
+} from './error-codes';
+import {
+  formatFieldErrors,
+  GenerateRequestBody,
+  parseStreamEvent,
+} from './schema';
+
+export type { GenerateRequestBody };
+
+export type StreamedToken = { token: string } & PositionLogprobs;
+
+// A failed generation, classified so the UI can offer the right way out
+export class GenerationError extends Error {
+  code: GenerationErrorCode;
+  // Seconds until the client may try again, for QUOTA_EXCEEDED
+  retryAfter?: number;
+
+  constructor(message: string, code: GenerationErrorCode, retryAfter?: number) {
+    super(message);
+    this.name = 'GenerationError';
+    this.code = code;
+    this.retryAfter = retryAfter;
+  }
+}
+
+/**
+ * Returns an id for this tab, used by the server's per-session rate limit.
+ */
+function getSessionId(): string {
+  let id = sessionStorage.getItem(STORAGE_KEYS.SESSION_ID);
+  if (!id) {
+    id = crypto.randomUUID();
+    sessionStorage.setItem(STORAGE_KEYS.SESSION_ID, id);
+  }
+  return id;
+}
+
+/**
+ * Builds a readable message from an API error body.
+ */
+function getErrorMessage(data: {
+  error?: string;
+  userMessage?: string;
+  details?: string;
+}): string {
+  const errorMsg = data.userMessage || data.error || 'Generation failed';
+  const details = data.details ? ` (${data.details})` : '';
+  return errorMsg + details;
+}
+
+/**
+ * Turns an error response body into a GenerationError.
+ * @param data - The parsed body, which may not be an API error at all
+ * @param status - The HTTP status, used when the body has no code
+ * @param retryAfterHeader - The Retry-After response header
+ */
+function toGenerationError(
+  data: {
+    code?: string;
+    error?: string;
+    userMessage?: string;
+    details?: string;
+    retryAfter?: number;
+  },
+  status: number,
+  retryAfterHeader: string | null = null
+): GenerationError {
+  const code = (GENERATION_ERROR_CODES as readonly string[]).includes(
+    data.code ?? ''
+  )
+    ? (data.code as GenerationErrorCode)
+    : status === 429
+      ? 'QUOTA_EXCEEDED'
+      : 'INTERNAL';
+  const retryAfter =
+    code === 'QUOTA_EXCEEDED'
+      ? Number(retryAfterHeader) ||
+        data.retryAfter ||
+        DEFAULT_RETRY_AFTER_SECONDS
+      : undefined;
+  return new GenerationError(getErrorMessage(data), code, retryAfter);
+}
+
+/**
+ * True for the error fetch and streams reject with once aborted.
+ */
+export function isAbortError(err: unknown): boolean {
+  return err instanceof Error && err.name === 'AbortError';
+}
+
+// Resolves after a delay, or rejects as soon as the signal aborts
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    signal?.throwIfAborted();
+    const timeout = setTimeout(resolve, ms);
+    signal?.addEventListener(
+      'abort',
+      () => {
+        clearTimeout(timeout);
+        reject(signal.reason);
+      },
+      { once: true }
+    );
+  });
+}
+
+/**
+ * Decides whether a failed attempt is worth repeating.
+ * @param err - Why the attempt failed
+ * @param attempt - Number of the attempt that failed, from 1
+ * @returns Milliseconds to wait before the next attempt, or null to give up
+ */
+function getRetryDelay(err: unknown, attempt: number): number | null {
+  const { maxAttempts, baseDelayMs, maxDelayMs } = GENERATION_RETRY_CONFIG;
+  if (attempt >= maxAttempts) return null;
+
+  // Exponential backoff with jitter, so retrying tabs don't line up
+  const backoff = baseDelayMs * 2 ** (attempt - 1) * (1 + Math.random());
+
+  // Network failures reject fetch with a TypeError
+  if (err instanceof TypeError) return Math.min(backoff, maxDelayMs);
+  if (!(err instanceof GenerationError)) return null;
+
+  switch (err.code) {
+    case 'UPSTREAM_TIMEOUT':
+    case 'MISSING_LOGPROBS':
+    case 'INTERNAL':
+      return Math.min(backoff, maxDelayMs);
+    case 'QUOTA_EXCEEDED': {
+      // Long waits are left to the user, with a countdown
+      const retryAfterMs = (err.retryAfter ?? 0) * 1000;
+      return retryAfterMs <= maxDelayMs
+        ? Math.max(backoff, retryAfterMs)
+        : null;
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Makes a single streaming request. Times out if the response, or the next
+ * token, takes longer than GENERATION_RETRY_CONFIG.timeoutMs.
+ */
+async function streamAttempt(
+  body: GenerateRequestBody,
+  onToken: (chunk: StreamedToken) => void,
+  signal?: AbortSignal
+): Promise<FinishReason> {
+  // An abort before this point would never fire the listener below
+  signal?.throwIfAborted();
+
+  const controller = new AbortController();
+  const abort = () => controller.abort(signal?.reason);
+  signal?.addEventListener('abort', abort, { once: true });
+
+  let timedOut = false;
+  let timeout: ReturnType<typeof setTimeout> | undefined;
+  const restartTimeout = () => {
+    clearTimeout(timeout);
+    timeout = setTimeout(() => {
+      timedOut = true;
+      controller.abort();
+    }, GENERATION_RETRY_CONFIG.timeoutMs);
+  };
+
+  try {
+    restartTimeout();
+    const response = await fetch('/api/generate/stream', {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Session-Id': getSessionId(),
+      },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+    });
+
+    if (!response.ok || !response.body) {
+      const data = await response.json().catch(() => ({}));
+      throw toGenerationError(
+        data,
+        response.status,
+        response.headers.get('Retry-After')
+      );
+    }
+
+    // Newline-delimited JSON: one event per line
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+
+    while (true) {
+      restartTimeout();
+      const { done, value } = await reader.read();
+      if (done) break;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        if (!line.trim()) continue;
+
+        // Never trust the stream blindly - a bad event would break the wheel
+        let json: unknown;
+        try {
+          json = JSON.parse(line);
+        } catch {
+          throw new GenerationError('Invalid response from server', 'INTERNAL');
+        }
+        const parsed = parseStreamEvent(json);
+        if (!parsed.success) {
+          throw new GenerationError(
+            `Invalid response from server: ${formatFieldErrors(parsed.errors)}`,
+            'INTERNAL'
+          );
+        }
+
+        const event = parsed.data;
+        if (event.type === 'token') {
+          onToken(event);
+        } else if (event.type === 'error') {
+          throw toGenerationError(event, response.status);
+        } else {
+          return event.finishReason;
+        }
+      }
+    }
+
+    throw new GenerationError(
+      'Generation stream ended unexpectedly',
+      'INTERNAL'
+    );
+  } catch (err) {
+    if (timedOut) {
+      throw new GenerationError(
+        'The model took too long to respond. Please try again.',
+        'UPSTREAM_TIMEOUT'
+      );
+    }
+    throw err;
+  } finally {
+    clearTimeout(timeout);
+    signal?.removeEventListener('abort', abort);
+    // Close the connection if we stopped reading early
+    controller.abort();
+  }
+}
+
+/**
+ * Requests a streamed generation and reports each token as it arrives.
+ * Transient failures before the first token are retried with backoff.
+ * @param body - The generation request
+ * @param onToken - Called for every token with its position data
+ * @param signal - Aborts the request, and the upstream model call with it
+ * @returns Why the generation ended, once it has
+ * @throws GenerationError with a code and user-facing message if the
+ *   generation fails
+ * @throws The signal's abort reason if the request is aborted
+ */
+export async function streamGeneration(
+  body: GenerateRequestBody,
+  onToken: (chunk: StreamedToken) => void,
+  signal?: AbortSignal
+): Promise<FinishReason> {
+  for (let attempt = 1; ; attempt++) {
+    let hasToken = false;
+    try {
+      return await streamAttempt(
+        body,
+        (chunk) => {
+          hasToken = true;
+          onToken(chunk);
+        },
+        signal
+      );
+    } catch (err) {
+      // Retrying after tokens were delivered would repeat them
+      const delay =
+        hasToken || signal?.aborted ? null : getRetryDelay(err, attempt);
+      if (delay === null) throw err;
+      await wait(delay, signal);
+    }
+  }
+}
@@ -0,0 +1,58 @@
+/**
+ * Autoplay
+ *
+ * Spins the wheel and accepts each result without anyone at the keyboard,
+ * e.g. when the wheel is projected in a lecture. The speed shortens the
+ * spin and the time the result stays up; autoplay can pause itself on an
+ * unlikely token so there is time to talk about it.
+ */
+
+export type AutoplaySpeed = 'slow' | 'normal' | 'fast';
+
+export const AUTOPLAY_SPEEDS: Record<
+  AutoplaySpeed,
+  { label: string; spinDurationMs: number; resultDelayMs: number }
+> = {
+  // The default pace of spinning by hand
+  slow: { label: 'Slow', spinDurationMs: 4000, resultDelayMs: 3500 },
+  normal: { label: 'Normal', spinDurationMs: 2000, resultDelayMs: 1200 },
+  fast: { label: 'Fast', spinDurationMs: 800, resultDelayMs: 400 },
+};
+
+// Thresholds offered for pausing on an unlikely token; 0 never pauses
+export const AUTOPLAY_PAUSE_THRESHOLDS = [0, 0.05, 0.1, 0.2, 0.3] as const;
+
+export interface AutoplaySettings {
+  speed: AutoplaySpeed;
+  // Pause when the landed token's probability is below this
+  pauseBelow: number;
+}
+
+export const DEFAULT_AUTOPLAY_SETTINGS: AutoplaySettings = {
+  speed: 'normal',
+  pauseBelow: 0,
+};
+
+/**
+ * Parses autoplay settings saved in localStorage, falling back to defaults.
+ * @param saved - The stored JSON string, if any
+ * @returns Valid autoplay settings
+ */
+export function parseAutoplaySettings(saved: string | null): AutoplaySettings {
+  if (!saved) return DEFAULT_AUTOPLAY_SETTINGS;
+  try {
+    const parsed = JSON.parse(saved);
+    return {
+      speed: Object.hasOwn(AUTOPLAY_SPEEDS, parsed.speed)
+        ? parsed.speed
+        : DEFAULT_AUTOPLAY_SETTINGS.speed,
+      pauseBelow: (AUTOPLAY_PAUSE_THRESHOLDS as readonly number[]).includes(
+        parsed.pauseBelow
+      )
+        ? parsed.pauseBelow
+        : DEFAULT_AUTOPLAY_SETTINGS.pauseBelow,
+    };
+  } catch {
+    return DEFAULT_AUTOPLAY_SETTINGS;
+  }
+}
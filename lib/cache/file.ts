@@ -0,0 +1,36 @@
+import { mkdir, readFile, rename, rm, writeFile } from 'fs/promises';
+import path from 'path';
+import { CacheEntry, CacheStore } from './types';
+
+/**
+ * File store that keeps one JSON file per entry, so the cache survives
+ * server restarts. Keys are hex digests and safe to use as file names.
+ */
+export function createFileStore(directory: string): CacheStore {
+  const fileFor = (key: string) => path.join(directory, `${key}.json`);
+
+  return {
+    async get(key) {
+      try {
+        return JSON.parse(await readFile(fileFor(key), 'utf-8'));
+      } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+          return undefined;
+        }
+        throw error;
+      }
+    },
+
+    async set(key, entry: CacheEntry) {
+      await mkdir(directory, { recursive: true });
+      // Write then rename so readers never see a partial file
+      const tempFile = `${fileFor(key)}.${process.pid}.tmp`;
+      await writeFile(tempFile, JSON.stringify(entry));
+      await rename(tempFile, fileFor(key));
+    },
+
+    async delete(key) {
+      await rm(fileFor(key), { force: true });
+    },
+  };
+}
@@ -0,0 +1,112 @@
+import { createHash } from 'crypto';
+import { GenerationResult } from '../providers';
+import { createFileStore } from './file';
+import { createMemoryStore } from './memory';
+import { CACHE_STORE_NAMES, CacheStore, CacheStoreName } from './types';
+
+export * from './types';
+
+// Response header reporting how a request used the cache
+export const CACHE_STATUS_HEADER = 'X-Cache';
+
+export type CacheStatus = 'HIT' | 'MISS' | 'BYPASS';
+
+const DEFAULT_TTL_SECONDS = 60 * 60;
+const DEFAULT_MAX_ENTRIES = 500;
+const DEFAULT_CACHE_DIR = '.cache/generations';
+
+function isCacheStoreName(value: unknown): value is CacheStoreName {
+  return (
+    typeof value === 'string' &&
+    (CACHE_STORE_NAMES as readonly string[]).includes(value)
+  );
+}
+
+// Created on first use; null when caching is turned off
+let store: CacheStore | null | undefined;
+
+/**
+ * Returns the store selected with GENERATION_CACHE ("memory" by default,
+ * "file", or "off" to disable caching).
+ */
+function getStore(): CacheStore | null {
+  if (store !== undefined) return store;
+
+  const configured = process.env.GENERATION_CACHE || 'memory';
+  if (configured === 'off') {
+    store = null;
+  } else if (!isCacheStoreName(configured)) {
+    throw new Error(`Unknown GENERATION_CACHE: ${configured}`);
+  } else if (configured === 'file') {
+    store = createFileStore(
+      process.env.GENERATION_CACHE_DIR || DEFAULT_CACHE_DIR
+    );
+  } else {
+    store = createMemoryStore(
+      Number(process.env.GENERATION_CACHE_MAX_ENTRIES) || DEFAULT_MAX_ENTRIES
+    );
+  }
+  return store;
+}
+
+function getTtlMs(): number {
+  const ttl = Number(process.env.GENERATION_CACHE_TTL_SECONDS);
+  return (Number.isFinite(ttl) && ttl > 0 ? ttl : DEFAULT_TTL_SECONDS) * 1000;
+}
+
+/**
+ * Hashes the parts that identify a generation into a cache key.
+ * @param parts - Everything that affects the generated output
+ * @returns A hex digest
+ */
+export function createCacheKey(parts: object): string {
+  return createHash('sha256').update(JSON.stringify(parts)).digest('hex');
+}
+
+/**
+ * Looks up a cached generation. Stale entries are removed.
+ * Store failures are logged and treated as a miss.
+ * @param key - Cache key from createCacheKey()
+ * @param bypass - Skip the lookup, e.g. when the client asks for a fresh result
+ * @returns The cache status and the cached result on a hit
+ */
+export async function getCachedGeneration(
+  key: string,
+  bypass = false
+): Promise<{ status: CacheStatus; result?: GenerationResult }> {
+  const cacheStore = getStore();
+  if (!cacheStore || bypass) return { status: 'BYPASS' };
+
+  try {
+    const entry = await cacheStore.get(key);
+    if (entry && entry.expiresAt > Date.now()) {
+      return { status: 'HIT', result: entry.result };
+    }
+    if (entry) {
+      await cacheStore.delete(key);
+    }
+  } catch (error) {
+    console.error('Cache read error:', error);
+  }
+  return { status: 'MISS' };
+}
+
+/**
+ * Stores a generation for later requests with the same key.
+ * Store failures are logged and otherwise ignored.
+ * @param key - Cache key from createCacheKey()
+ * @param result - The finished generation
+ */
+export async function cacheGeneration(
+  key: string,
+  result: GenerationResult
+): Promise<void> {
+  const cacheStore = getStore();
+  if (!cacheStore) return;
+
+  try {
+    await cacheStore.set(key, { result, expiresAt: Date.now() + getTtlMs() });
+  } catch (error) {
+    console.error('Cache write error:', error);
+  }
+}
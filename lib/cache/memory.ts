@@ -0,0 +1,33 @@
+import { CacheEntry, CacheStore } from './types';
+
+/**
+ * In-memory store that evicts the least recently used entry once full.
+ * Entries live as long as the server process.
+ */
+export function createMemoryStore(maxEntries: number): CacheStore {
+  // Map iteration order doubles as recency order (oldest first)
+  const entries = new Map<string, CacheEntry>();
+
+  return {
+    async get(key) {
+      const entry = entries.get(key);
+      if (entry) {
+        entries.delete(key);
+        entries.set(key, entry);
+      }
+      return entry;
+    },
+
+    async set(key, entry) {
+      entries.delete(key);
+      entries.set(key, entry);
+      if (entries.size > maxEntries) {
+        entries.delete(entries.keys().next().value!);
+      }
+    },
+
+    async delete(key) {
+      entries.delete(key);
+    },
+  };
+}
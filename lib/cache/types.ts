@@ -0,0 +1,21 @@
+import { GenerationResult } from '../providers';
+
+export const CACHE_STORE_NAMES = ['memory', 'file'] as const;
+
+export type CacheStoreName = (typeof CACHE_STORE_NAMES)[number];
+
+export interface CacheEntry {
+  result: GenerationResult;
+  // Epoch milliseconds after which the entry is stale
+  expiresAt: number;
+}
+
+/**
+ * Storage backend for cached generations.
+ * Implement this interface to plug in another store (e.g. SQLite, Redis).
+ */
+export interface CacheStore {
+  get(key: string): Promise<CacheEntry | undefined>;
+  set(key: string, entry: CacheEntry): Promise<void>;
+  delete(key: string): Promise<void>;
+}
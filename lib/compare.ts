@@ -0,0 +1,116 @@
+/**
+ * Distribution Comparison
+ *
+ * Compares the next-token distributions two settings produce for the same
+ * text, for the side-by-side compare mode.
+ */
+
+import { DEFAULT_SYSTEM_INSTRUCTION } from './constants';
+import { ProviderName } from './providers/types';
+
+export interface CompareSideSettings {
+  temperature: number;
+  systemInstruction: string;
+  // Unset uses the server's configured provider
+  provider?: ProviderName;
+  // Empty uses the provider's default model
+  model: string;
+}
+
+// A low and a high temperature make the difference easy to see
+export const DEFAULT_COMPARE_SIDES: [CompareSideSettings, CompareSideSettings] =
+  [
+    {
+      temperature: 0.2,
+      systemInstruction: DEFAULT_SYSTEM_INSTRUCTION,
+      model: '',
+    },
+    {
+      temperature: 1.5,
+      systemInstruction: DEFAULT_SYSTEM_INSTRUCTION,
+      model: '',
+    },
+  ];
+
+export interface TokenComparison {
+  token: string;
+  // Null when the token is not among that side's candidates
+  left: number | null;
+  right: number | null;
+  // Right minus left, counting a missing token as 0
+  delta: number;
+}
+
+export interface DistributionComparison {
+  // Every candidate of either side, most likely first
+  rows: TokenComparison[];
+  sharedCount: number;
+  // KL divergences in bits, in both directions since KL is not symmetric
+  klLeftRight: number;
+  klRightLeft: number;
+}
+
+// Stand-in probability for tokens one side did not return, so that KL
+// divergence stays finite
+const MISSING_TOKEN_PROBABILITY = 1e-4;
+
+/**
+ * Spreads a distribution over the given tokens, filling in missing ones
+ * with a small floor and renormalizing.
+ */
+function smooth(
+  distribution: Record<string, number>,
+  tokens: string[]
+): number[] {
+  const values = tokens.map(
+    (token) => distribution[token] ?? MISSING_TOKEN_PROBABILITY
+  );
+  const total = values.reduce((sum, v) => sum + v, 0);
+  return values.map((v) => v / total);
+}
+
+/**
+ * Kullback-Leibler divergence D(p || q) in bits.
+ */
+function klDivergence(p: number[], q: number[]): number {
+  return p.reduce(
+    (sum, pi, i) => (pi > 0 ? sum + pi * Math.log2(pi / q[i]) : sum),
+    0
+  );
+}
+
+/**
+ * Compares two next-token distributions token by token.
+ * @param left - Probabilities by token for the left side
+ * @param right - Probabilities by token for the right side
+ * @returns Per-token rows plus the KL divergence in each direction
+ */
+export function compareDistributions(
+  left: Record<string, number>,
+  right: Record<string, number>
+): DistributionComparison {
+  const tokens = [...new Set([...Object.keys(left), ...Object.keys(right)])];
+
+  const rows = tokens
+    .map((token) => ({
+      token,
+      left: left[token] ?? null,
+      right: right[token] ?? null,
+      delta: (right[token] ?? 0) - (left[token] ?? 0),
+    }))
+    .sort(
+      (a, b) =>
+        Math.max(b.left ?? 0, b.right ?? 0) -
+        Math.max(a.left ?? 0, a.right ?? 0)
+    );
+
+  const p = smooth(left, tokens);
+  const q = smooth(right, tokens);
+
+  return {
+    rows,
+    sharedCount: rows.filter((r) => r.left !== null && r.right !== null).length,
+    klLeftRight: klDivergence(p, q),
+    klRightLeft: klDivergence(q, p),
+  };
+}
@@ -1,5 +1,7 @@
 export const DEFAULT_TEMPERATURE = 0.9;
 
+export const DEFAULT_MAX_TOKENS = 50;
+
 export const WEDGE_COLORS = [
   '#3B82F6', // blue-500
   '#10B981', // emerald-500
@@ -13,6 +15,12 @@ export const WEDGE_COLORS = [
   '#6366F1', // indigo-500
 ];
 
+// Tokens listed in the legend, each picked with its number key
+export const LEGEND_TOKEN_COUNT = 8;
+
+// Grey "everything else" wedge for mass outside the top candidates
+export const RESIDUAL_WEDGE_COLOR = '#A1A1AA'; // zinc-400
+
 export const QUICK_PROMPTS = [
   'The cat sat on the',
   'Once upon a time',
@@ -24,6 +32,49 @@ export const STORAGE_KEYS = {
   PROMPT: 'tokenwheel-prompt',
   TEMPERATURE: 'tokenwheel-temperature',
   SYSTEM_INSTRUCTION: 'tokenwheel-system-instruction',
+  MODEL_SOURCE: 'tokenwheel-model-source',
+  NGRAM_SETTINGS: 'tokenwheel-ngram-settings',
+  SAMPLING_CONTROLS: 'tokenwheel-sampling-controls',
+  SPIN_SETTINGS: 'tokenwheel-spin-settings',
+  SHOW_RESIDUAL: 'tokenwheel-show-residual',
+  SESSION: 'tokenwheel-session',
+  SESSION_ID: 'tokenwheel-session-id',
+  PREFETCH_SETTINGS: 'tokenwheel-prefetch-settings',
+  STOP_SETTINGS: 'tokenwheel-stop-settings',
+  GENERATION_PARAMS: 'tokenwheel-generation-params',
+  SAMPLING_PRESETS: 'tokenwheel-sampling-presets',
+  CHAT_MODE: 'tokenwheel-chat-mode',
+  AUTOPLAY_SETTINGS: 'tokenwheel-autoplay-settings',
+  WHEEL_ANIMATION: 'tokenwheel-wheel-animation',
+} as const;
+
+// 'replay' lands on the model's own choice, 'sample' draws from the wheel
+export type SpinMode = 'replay' | 'sample';
+
+// Where tokens come from: the server-side model API or the in-browser n-gram model
+export type ModelSource = 'api' | 'ngram';
+
+export const DEFAULT_MODEL_SOURCE: ModelSource = 'api';
+
+export const NGRAM_CONFIG = {
+  defaultOrder: 3,
+  minOrder: 2,
+  maxOrder: 5,
+  defaultLevel: 'word',
+  maxCorpusLength: 500_000,
+} as const;
+
+// Pre-generating continuations for likely alternative wedges
+export const PREFETCH_CONFIG = {
+  defaultCount: 2,
+  maxCount: 5,
+  defaultConcurrency: 2,
+  maxConcurrency: 4,
+  // Most prefetch requests one wheel page may make. Prefetches count
+  // against the server's rate limit like any request, so the default stays
+  // well below the per-session burst of 20
+  defaultBudget: 10,
+  budgetOptions: [5, 10, 25, 50],
 } as const;
 
 export const TEMPERATURE_CONFIG = {
@@ -32,6 +83,37 @@ export const TEMPERATURE_CONFIG = {
   step: 0.05,
 } as const;
 
+// Accepted ranges for /api/generate request fields
+export const GENERATION_LIMITS = {
+  maxPromptLength: 1000,
+  maxSystemInstructionLength: 2000,
+  maxModelLength: 100,
+  maxTokens: { min: 1, max: 100 },
+  topP: { min: 0, max: 1 },
+  topK: { min: 1, max: 100 },
+  // Providers return at most 20 alternatives per position
+  numLogprobs: { min: 1, max: 20 },
+  // Earlier turns sent with a chat message
+  maxChatHistory: 20,
+  stopSequences: { maxItems: 4, maxLength: 50 },
+} as const;
+
+// Client-side timeouts and retries for /api/generate/stream
+export const GENERATION_RETRY_CONFIG = {
+  maxAttempts: 3,
+  baseDelayMs: 500,
+  maxDelayMs: 8000,
+  // Give up when the response, or the next token, takes longer than this
+  timeoutMs: 30_000,
+} as const;
+
+export const SAMPLING_CONTROLS_CONFIG = {
+  temperature: { min: 0, max: 2, step: 0.05 },
+  topK: { min: 0, max: 10, step: 1 },
+  topP: { min: 0.05, max: 1, step: 0.05 },
+  minP: { min: 0, max: 0.5, step: 0.01 },
+} as const;
+
 export const DEFAULT_SYSTEM_INSTRUCTION = `You are a text continuation assistant. The user will provide incomplete text, and you must continue it naturally.
 
 CRITICAL: Your output is concatenated directly to the user's input with no separator. If the user's text ends with a complete word (like "the" or "a"), your first token MUST start with a space. Only omit the leading space if the user's text ends with a space or mid-word.
@@ -41,3 +123,10 @@ Rules:
 2. Do NOT repeat the ending of the user's input at the start of your response.
 3. Do NOT use markdown formatting, bullet points, or special characters.
 4. Write in a natural, flowing style that matches the tone of the input.`;
+
+export const DEFAULT_CHAT_SYSTEM_INSTRUCTION = `You are a helpful assistant chatting with the user.
+
+Rules:
+1. Keep replies short - a few sentences at most.
+2. Do NOT use markdown formatting, bullet points, or special characters.
+3. If the conversation ends with a partial reply of yours, continue it exactly where it stops.`;
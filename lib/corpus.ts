@@ -0,0 +1,17 @@
+/**
+ * Bundled training text for the local n-gram model.
+ * Short, simple sentences that overlap with the quick prompts.
+ */
+export const DEFAULT_NGRAM_CORPUS = `The cat sat on the mat. The cat sat on the windowsill and watched the birds in the garden. The dog sat on the floor by the fire. The cat slept on the warm rug all afternoon. The dog ran across the garden and barked at the gate. The cat jumped onto the table and knocked over a cup of tea.
+
+Once upon a time there was a small village at the edge of a great forest. Once upon a time a young girl lived with her grandmother in a house by the river. Once upon a time there was a king who had three daughters. The king loved his daughters more than all the gold in his castle. The youngest daughter was kind and clever, and she liked to walk in the forest.
+
+In a world where people could fly, nobody needed roads. In a world where the sun never set, the night was only a story. In a world where books could talk, the library was the loudest place in town. In a world where every door led somewhere new, she never went home the same way twice.
+
+She opened the door and stepped into the cold morning air. She opened the door and saw a letter lying on the step. She opened the door and found her old friend waiting in the rain. He opened the window and listened to the sound of the sea. She opened the letter and read it twice before she smiled.
+
+The sun was shining and the sky was blue. The wind was cold and the trees were bare. The children played in the park until the sun went down. The old man walked slowly down the road with his dog. The river ran quietly through the valley and into the sea. It was a quiet night, and the stars were bright above the hills.
+
+Every morning she made a cup of coffee and sat by the window. Every evening the family ate dinner together and talked about their day. Every time it rained, the garden smelled of earth and flowers. The house was small, but it was warm and full of light. The forest was dark, but the path was easy to follow.
+
+He picked up the book and began to read. She picked up the phone and called her brother. They walked to the end of the street and turned left at the bakery. The baker smiled and handed them a loaf of fresh bread. The bread was warm, and the smell of it filled the whole street.`;
@@ -0,0 +1,52 @@
+/**
+ * Generation Error Codes
+ *
+ * Every failed generation carries one of these codes, so the routes and
+ * the wheel agree on what went wrong and what the user can do about it.
+ */
+
+import type { RateLimitScope } from './rate-limit/types';
+import type { FieldErrors } from './schema';
+
+export const GENERATION_ERROR_CODES = [
+  'SAFETY_BLOCK',
+  'QUOTA_EXCEEDED',
+  'UPSTREAM_TIMEOUT',
+  'INVALID_INPUT',
+  'MISSING_LOGPROBS',
+  'INTERNAL',
+] as const;
+
+export type GenerationErrorCode = (typeof GENERATION_ERROR_CODES)[number];
+
+// What the wheel offers after a failure
+export type ErrorAffordance = 'retry' | 'edit-prompt' | 'back-off';
+
+export const ERROR_AFFORDANCES: Record<GenerationErrorCode, ErrorAffordance> = {
+  // The prompt itself was flagged - only a different prompt helps
+  SAFETY_BLOCK: 'edit-prompt',
+  // Our rate limit or the provider's quota - wait, then retry
+  QUOTA_EXCEEDED: 'back-off',
+  UPSTREAM_TIMEOUT: 'retry',
+  INVALID_INPUT: 'edit-prompt',
+  // Usually transient; persistent failures point at the model config
+  MISSING_LOGPROBS: 'retry',
+  INTERNAL: 'retry',
+};
+
+// Seconds to back off when the server does not say
+export const DEFAULT_RETRY_AFTER_SECONDS = 60;
+
+export interface GenerationErrorBody {
+  code: GenerationErrorCode;
+  error: string;
+  reason?: string;
+  userMessage?: string;
+  details?: string;
+  // Set on INVALID_INPUT, one message per invalid field
+  fieldErrors?: FieldErrors;
+  // Set on QUOTA_EXCEEDED from our own rate limiter
+  limit?: RateLimitScope;
+  // Set on QUOTA_EXCEEDED, seconds until the client may try again
+  retryAfter?: number;
+}
@@ -0,0 +1,136 @@
+import {
+  DEFAULT_RETRY_AFTER_SECONDS,
+  GenerationErrorBody,
+} from './error-codes';
+import {
+  MissingLogprobsError,
+  QuotaExceededError,
+  SafetyBlockError,
+  UpstreamTimeoutError,
+} from './generation';
+import { RateLimitScope } from './rate-limit';
+import { FieldErrors } from './schema';
+
+export type { GenerationErrorBody };
+
+// Status, JSON body and any extra headers for an error response
+export interface ErrorResponse {
+  status: number;
+  body: GenerationErrorBody;
+  headers?: Record<string, string>;
+}
+
+const RATE_LIMIT_MESSAGES: Record<RateLimitScope, string> = {
+  ip: 'Too many requests from your network.',
+  session: 'Too many requests from this tab.',
+  daily: 'The daily generation budget for this site has been used up.',
+};
+
+/**
+ * Describes a request body that failed validation as a 400 response.
+ * @param error - Summary of every invalid field
+ * @param fieldErrors - Message per invalid field
+ */
+export function describeInvalidRequest(
+  error: string,
+  fieldErrors: FieldErrors
+): ErrorResponse {
+  return {
+    status: 400,
+    body: { code: 'INVALID_INPUT', error, fieldErrors },
+  };
+}
+
+/**
+ * Describes a rejected rate limit check as a 429 response.
+ * @param limit - Which limit was hit
+ * @param retryAfter - Seconds until the client may try again
+ * @returns The HTTP status, JSON body and Retry-After header
+ */
+export function describeRateLimit(
+  limit: RateLimitScope,
+  retryAfter: number
+): ErrorResponse {
+  return {
+    status: 429,
+    body: {
+      code: 'QUOTA_EXCEEDED',
+      error: 'Rate limit exceeded',
+      userMessage: `${RATE_LIMIT_MESSAGES[limit]} Please wait before generating again.`,
+      limit,
+      retryAfter,
+    },
+    headers: { 'Retry-After': String(retryAfter) },
+  };
+}
+
+/**
+ * Maps an error thrown during generation to a response status and body.
+ * @param error - The caught error
+ * @returns The HTTP status, JSON body and any headers to send to the client
+ */
+export function describeGenerationError(error: unknown): ErrorResponse {
+  // Handle safety blocks with user-friendly message
+  if (error instanceof SafetyBlockError) {
+    return {
+      status: 400,
+      body: {
+        code: 'SAFETY_BLOCK',
+        error: 'Content blocked by safety filter',
+        reason: error.reason,
+        userMessage:
+          'Your prompt was flagged by the safety filter. Please try a different prompt.',
+      },
+    };
+  }
+
+  if (error instanceof QuotaExceededError) {
+    const retryAfter = error.retryAfter ?? DEFAULT_RETRY_AFTER_SECONDS;
+    return {
+      status: 429,
+      body: {
+        code: 'QUOTA_EXCEEDED',
+        error: 'Model provider quota exceeded',
+        userMessage:
+          'The model provider is busy or out of quota. Please wait before generating again.',
+        retryAfter,
+      },
+      headers: { 'Retry-After': String(retryAfter) },
+    };
+  }
+
+  if (error instanceof UpstreamTimeoutError) {
+    return {
+      status: 504,
+      body: {
+        code: 'UPSTREAM_TIMEOUT',
+        error: 'Model provider timed out',
+        userMessage: 'The model took too long to respond. Please try again.',
+      },
+    };
+  }
+
+  if (error instanceof MissingLogprobsError) {
+    return {
+      status: 502,
+      body: {
+        code: 'MISSING_LOGPROBS',
+        error: 'No logprobs returned',
+        userMessage:
+          'The model answered without token probabilities, so there is no wheel to spin. Please try again.',
+      },
+    };
+  }
+
+  // Generic error handling
+  const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+  return {
+    status: 500,
+    body: {
+      code: 'INTERNAL',
+      error: 'Failed to generate text',
+      details:
+        process.env.NODE_ENV === 'development' ? errorMessage : undefined,
+    },
+  };
+}
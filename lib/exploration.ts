@@ -0,0 +1,168 @@
+/**
+ * Exploration Tree
+ *
+ * Every token picked on the wheel moves one step down a tree of explored
+ * continuations. Picking a different token at a position that was visited
+ * before adds a sibling branch instead of discarding the old path, so any
+ * branch can be revisited later. Trees are immutable - every update
+ * returns a new tree.
+ */
+
+export interface ExplorationNode<G> {
+  id: number;
+  parentId: number | null;
+  // Token picked to reach this node (null for the root)
+  token: string | null;
+  // Generation and position the wheel shows at this node
+  generation: G;
+  position: number;
+  childIds: number[];
+}
+
+export interface ExplorationTree<G> {
+  // Nodes indexed by id
+  nodes: ExplorationNode<G>[];
+  currentId: number;
+}
+
+/**
+ * Starts a tree whose root shows a generation from its first position.
+ * @param generation - Generation for the original prompt
+ * @returns A tree containing only the root
+ */
+export function createExplorationTree<G>(generation: G): ExplorationTree<G> {
+  return {
+    nodes: [
+      {
+        id: 0,
+        parentId: null,
+        token: null,
+        generation,
+        position: 0,
+        childIds: [],
+      },
+    ],
+    currentId: 0,
+  };
+}
+
+/**
+ * Finds the branch that continues a node with a token, if it was explored.
+ * @param tree - The exploration tree
+ * @param nodeId - Parent node
+ * @param token - Token picked at the parent
+ * @returns The existing child node, or undefined
+ */
+export function findBranch<G>(
+  tree: ExplorationTree<G>,
+  nodeId: number,
+  token: string
+): ExplorationNode<G> | undefined {
+  return tree.nodes[nodeId]?.childIds
+    .map((id) => tree.nodes[id])
+    .find((child) => child.token === token);
+}
+
+/**
+ * Adds a branch below a node and makes it the current node.
+ * @param tree - The exploration tree
+ * @param parentId - Node the token was picked at
+ * @param token - Token that was picked
+ * @param generation - Generation to continue with
+ * @param position - Position within that generation
+ * @returns The updated tree
+ */
+export function addBranch<G>(
+  tree: ExplorationTree<G>,
+  parentId: number,
+  token: string,
+  generation: G,
+  position: number
+): ExplorationTree<G> {
+  const id = tree.nodes.length;
+  const nodes = tree.nodes.map((node) =>
+    node.id === parentId ? { ...node, childIds: [...node.childIds, id] } : node
+  );
+  nodes.push({
+    id,
+    parentId,
+    token,
+    generation,
+    position,
+    childIds: [],
+  });
+  return { nodes, currentId: id };
+}
+
+/**
+ * Makes an existing node the current one.
+ * @param tree - The exploration tree
+ * @param nodeId - Node to move to
+ * @returns The updated tree
+ */
+export function moveToNode<G>(
+  tree: ExplorationTree<G>,
+  nodeId: number
+): ExplorationTree<G> {
+  return { ...tree, currentId: nodeId };
+}
+
+/**
+ * Collects the tokens picked on the way from the root to a node.
+ * @param tree - The exploration tree
+ * @param nodeId - Target node
+ * @returns Tokens in order, empty for the root
+ */
+export function getBranchTokens<G>(
+  tree: ExplorationTree<G>,
+  nodeId: number
+): string[] {
+  const tokens: string[] = [];
+  let node: ExplorationNode<G> | undefined = tree.nodes[nodeId];
+  while (node && node.token !== null) {
+    tokens.unshift(node.token);
+    node = node.parentId !== null ? tree.nodes[node.parentId] : undefined;
+  }
+  return tokens;
+}
+
+/**
+ * Collects the picks on the way from the root to a node, each with the node
+ * it was made at.
+ * @param tree - The exploration tree
+ * @param nodeId - Target node
+ * @returns Picks in order, empty for the root
+ */
+export function getBranchSteps<G>(
+  tree: ExplorationTree<G>,
+  nodeId: number
+): { token: string; from: ExplorationNode<G> }[] {
+  const steps: { token: string; from: ExplorationNode<G> }[] = [];
+  let node: ExplorationNode<G> | undefined = tree.nodes[nodeId];
+  while (node && node.token !== null && node.parentId !== null) {
+    const parent: ExplorationNode<G> = tree.nodes[node.parentId];
+    steps.unshift({ token: node.token, from: parent });
+    node = parent;
+  }
+  return steps;
+}
+
+/**
+ * Lists the nodes on the way from the root to a node.
+ * @param tree - The exploration tree
+ * @param nodeId - Target node
+ * @returns Node ids in order, starting with the root and ending with the
+ *   target
+ */
+export function getBranchPath<G>(
+  tree: ExplorationTree<G>,
+  nodeId: number
+): number[] {
+  const path: number[] = [];
+  let node: ExplorationNode<G> | undefined = tree.nodes[nodeId];
+  while (node) {
+    path.unshift(node.id);
+    node = node.parentId !== null ? tree.nodes[node.parentId] : undefined;
+  }
+  return path;
+}
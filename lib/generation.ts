@@ -0,0 +1,172 @@
+import { createCacheKey } from './cache';
+import {
+  DEFAULT_CHAT_SYSTEM_INSTRUCTION,
+  DEFAULT_MAX_TOKENS,
+  DEFAULT_SYSTEM_INSTRUCTION,
+} from './constants';
+import { collectPositions, getPosition } from './logprobs';
+import { DEFAULT_GENERATION_PARAMS } from './presets';
+import {
+  getConfiguredProviderName,
+  getProvider,
+  FinishReason,
+  GenerationChunk,
+  GenerationOptions,
+  GenerationResult,
+  ModelProvider,
+  ProviderRequest,
+} from './providers';
+import { applyStopConditions, createStopChecker } from './stopping';
+
+export {
+  MissingLogprobsError,
+  QuotaExceededError,
+  SafetyBlockError,
+  UpstreamTimeoutError,
+  canContinueReply,
+  isModelAllowed,
+  isProviderAllowed,
+  isProviderName,
+  type FinishReason,
+  type GenerationChunk,
+  type GenerationOptions,
+  type GenerationResult,
+  type ProviderName,
+} from './providers';
+
+/**
+ * Picks the provider for a request and applies default sampling options.
+ */
+function resolveRequest({
+  prompt,
+  history,
+  reply,
+  systemInstruction,
+  maxTokens = DEFAULT_MAX_TOKENS,
+  temperature = 0.9,
+  topP = DEFAULT_GENERATION_PARAMS.topP,
+  topK = DEFAULT_GENERATION_PARAMS.topK,
+  numLogprobs = DEFAULT_GENERATION_PARAMS.numLogprobs,
+  seed,
+  stopSequences = [],
+  stopAtSentenceEnd = false,
+  provider: providerName,
+  model,
+}: GenerationOptions): { provider: ModelProvider; request: ProviderRequest } {
+  const provider = getProvider(providerName);
+
+  // LLM_MODEL only applies to the provider configured alongside it
+  const isConfiguredProvider = provider.name === getConfiguredProviderName();
+  const configuredModel = isConfiguredProvider
+    ? process.env.LLM_MODEL
+    : undefined;
+
+  return {
+    provider,
+    request: {
+      // A partial reply is sent as the assistant's turn, to be continued
+      messages: [
+        ...(history ?? []),
+        { role: 'user', content: prompt },
+        ...(reply ? [{ role: 'assistant' as const, content: reply }] : []),
+      ],
+      systemInstruction:
+        systemInstruction ||
+        (history
+          ? DEFAULT_CHAT_SYSTEM_INSTRUCTION
+          : DEFAULT_SYSTEM_INSTRUCTION),
+      model: model || configuredModel || provider.defaultModel,
+      maxTokens,
+      temperature,
+      topP,
+      topK,
+      numLogprobs,
+      seed,
+      stopSequences,
+      stopAtSentenceEnd,
+    },
+  };
+}
+
+/**
+ * Identifies a request once defaults are applied, so equivalent requests
+ * share a cache entry.
+ */
+export function getGenerationKey(options: GenerationOptions): string {
+  const { provider, request } = resolveRequest(options);
+  return createCacheKey({ provider: provider.name, ...request });
+}
+
+/**
+ * Generates a continuation with per-position log-probabilities using the
+ * requested provider, or the one configured through LLM_PROVIDER.
+ */
+export async function generateWithLogprobs(
+  options: GenerationOptions,
+  signal?: AbortSignal
+): Promise<GenerationResult> {
+  const { provider, request } = resolveRequest(options);
+  const result = await provider.generate(request, signal);
+
+  const { chunks, finishReason } = applyStopConditions(
+    Array.from(replayGeneration(result)),
+    request,
+    result.finishReason
+  );
+  if (chunks.length === result.tokens.length) {
+    return { ...result, finishReason };
+  }
+  return {
+    text: chunks.map((c) => c.token).join(''),
+    ...collectPositions(chunks),
+    finishReason,
+  };
+}
+
+/**
+ * Streams a continuation one token at a time and returns why it ended.
+ * Providers that cannot stream generate the whole continuation first and
+ * then replay it. The upstream call is cut off as soon as a stop condition
+ * is met.
+ */
+export async function* streamWithLogprobs(
+  options: GenerationOptions,
+  signal?: AbortSignal
+): AsyncGenerator<GenerationChunk, FinishReason> {
+  const { provider, request } = resolveRequest(options);
+  const controller = new AbortController();
+  const upstreamSignal = signal
+    ? AbortSignal.any([signal, controller.signal])
+    : controller.signal;
+
+  try {
+    const source = provider.stream
+      ? provider.stream(request, upstreamSignal)
+      : replayGeneration(await provider.generate(request, upstreamSignal));
+
+    const checker = createStopChecker<GenerationChunk>(request);
+    while (true) {
+      const step = await source.next();
+      const { release, stop } = step.done
+        ? checker.flush()
+        : checker.push(step.value);
+      yield* release;
+      if (stop) return stop;
+      if (step.done) return step.value;
+    }
+  } finally {
+    controller.abort();
+  }
+}
+
+/**
+ * Replays a finished generation one token at a time.
+ */
+export function* replayGeneration(
+  result: GenerationResult
+): Generator<GenerationChunk, FinishReason> {
+  for (let i = 0; i < result.tokens.length; i++) {
+    yield getPosition(result, i);
+  }
+  return result.finishReason;
+}
@@ -0,0 +1,102 @@
+/**
+ * Token Heatmap
+ *
+ * Scores each picked token against the distribution it was picked from, so
+ * the built text can be shaded by how likely every step was. A token can be
+ * scored by its probability, its surprisal in bits or its rank among the
+ * alternatives; each score maps onto the same cool-to-hot scale.
+ */
+
+export type HeatmapMetric = 'probability' | 'surprisal' | 'rank';
+
+export const HEATMAP_METRICS: { metric: HeatmapMetric; label: string }[] = [
+  { metric: 'probability', label: 'Probability' },
+  { metric: 'surprisal', label: 'Surprisal' },
+  { metric: 'rank', label: 'Rank' },
+];
+
+// Surprisal at which the scale tops out, i.e. a 1-in-256 pick
+const MAX_SURPRISAL_BITS = 8;
+
+// A picked token with the distribution at its position
+export interface TokenChoice {
+  token: string;
+  // Normalized probabilities of the alternatives
+  distribution: Record<string, number>;
+  // The token the model itself chose
+  modelToken: string;
+}
+
+export interface TokenScore {
+  probability: number;
+  // -log2(probability)
+  surprisal: number;
+  // 1 for the likeliest alternative
+  rank: number;
+  // True when the pick differs from the model's choice
+  diverged: boolean;
+}
+
+/**
+ * Scores a picked token against its distribution.
+ * @param choice - The token and the distribution it was picked from
+ * @returns Its probability, surprisal, rank and whether it diverged
+ */
+export function scoreToken({
+  token,
+  distribution,
+  modelToken,
+}: TokenChoice): TokenScore {
+  const probability = distribution[token] ?? 0;
+  return {
+    probability,
+    surprisal: -Math.log2(probability),
+    rank: Object.values(distribution).filter((p) => p > probability).length + 1,
+    diverged: token !== modelToken,
+  };
+}
+
+/**
+ * Places a score on the heatmap scale.
+ * @param score - The token's score
+ * @param metric - Which score to shade by
+ * @param alternatives - Number of tokens in the distribution
+ * @returns 0 for an expected pick up to 1 for the most surprising
+ */
+export function getHeatLevel(
+  score: TokenScore,
+  metric: HeatmapMetric,
+  alternatives: number
+): number {
+  switch (metric) {
+    case 'probability':
+      return 1 - score.probability;
+    case 'surprisal':
+      return Math.min(score.surprisal / MAX_SURPRISAL_BITS, 1);
+    case 'rank':
+      return alternatives > 1
+        ? Math.min((score.rank - 1) / (alternatives - 1), 1)
+        : 0;
+  }
+}
+
+/**
+ * Background color for a heat level, from green through amber to red.
+ */
+export function getHeatColor(level: number): string {
+  return `hsl(${Math.round(120 * (1 - level))} 85% 50% / 0.35)`;
+}
+
+/**
+ * Describes a score in the chosen metric, e.g. "42.0%", "1.25 bits" or "#2".
+ */
+export function formatScore(score: TokenScore, metric: HeatmapMetric): string {
+  switch (metric) {
+    case 'probability':
+      return `${(score.probability * 100).toFixed(1)}%`;
+    case 'surprisal':
+      return `${score.surprisal.toFixed(2)} bits`;
+    case 'rank':
+      return `#${score.rank}`;
+  }
+}
@@ -0,0 +1,141 @@
+/**
+ * Log-probability Utilities
+ *
+ * Providers report the top candidates at each position as raw
+ * log-probabilities. These helpers turn them into the normalized
+ * { token: probability } maps the wheel renders, while keeping the raw
+ * values, the entropy and the mass that fell outside the top candidates.
+ */
+
+export interface TokenCandidate {
+  token: string;
+  logprob: number;
+}
+
+/**
+ * Exponentiates candidate log-probabilities and normalizes them to sum to 1.
+ * Duplicate tokens keep the higher probability.
+ * @param candidates - Top candidates at a single position
+ * @returns Object with token keys and normalized probability values
+ */
+export function normalizeCandidates(
+  candidates: TokenCandidate[]
+): Record<string, number> {
+  // Convert to object: { token: probability }
+  const probsAtPosition: Record<string, number> = {};
+  candidates.forEach((c) => {
+    const prob = Math.exp(c.logprob);
+    probsAtPosition[c.token] = Math.max(probsAtPosition[c.token] ?? 0, prob);
+  });
+
+  // Normalize to ensure sum = 1.0
+  const total = Object.values(probsAtPosition).reduce((sum, p) => sum + p, 0);
+  const normalized: Record<string, number> = {};
+  Object.entries(probsAtPosition).forEach(([token, prob]) => {
+    normalized[token] = prob / total;
+  });
+
+  return normalized;
+}
+
+/**
+ * Everything the wheel knows about a single position.
+ */
+export interface PositionLogprobs {
+  // Normalized top-candidate probabilities, summing to 1
+  logprobs: Record<string, number>;
+  // Log-probabilities exactly as reported by the model
+  rawLogprobs: Record<string, number>;
+  chosenLogprob: number;
+  // Shannon entropy in bits, counting the residual mass as one outcome
+  entropy: number;
+  // Probability mass that fell outside the top candidates
+  residualMass: number;
+}
+
+/**
+ * Per-position data for a whole generation, as parallel arrays.
+ */
+export interface GenerationPositions {
+  tokens: string[];
+  logprobsByPosition: Record<string, number>[];
+  rawLogprobsByPosition: Record<string, number>[];
+  chosenLogprobs: number[];
+  entropyByPosition: number[];
+  residualMassByPosition: number[];
+}
+
+/**
+ * Summarizes the top candidates at a position.
+ * @param candidates - Top candidates with raw log-probabilities
+ * @param chosenLogprob - Log-probability of the token the model chose
+ * @returns Normalized and raw distributions, entropy and residual mass
+ */
+export function summarizeCandidates(
+  candidates: TokenCandidate[],
+  chosenLogprob: number
+): PositionLogprobs {
+  const rawLogprobs: Record<string, number> = {};
+  candidates.forEach((c) => {
+    rawLogprobs[c.token] = Math.max(
+      rawLogprobs[c.token] ?? -Infinity,
+      c.logprob
+    );
+  });
+
+  const topMass = Object.values(rawLogprobs).reduce(
+    (sum, logprob) => sum + Math.exp(logprob),
+    0
+  );
+  const residualMass = Math.max(0, 1 - topMass);
+
+  const entropy = [...Object.values(rawLogprobs).map(Math.exp), residualMass]
+    .filter((p) => p > 0)
+    .reduce((sum, p) => sum - p * Math.log2(p), 0);
+
+  return {
+    logprobs: normalizeCandidates(candidates),
+    rawLogprobs,
+    chosenLogprob,
+    entropy,
+    residualMass,
+  };
+}
+
+/**
+ * Collects per-token position data into parallel arrays.
+ * @param chunks - Generated tokens with their position data, in order
+ * @returns The generation's positions
+ */
+export function collectPositions(
+  chunks: ({ token: string } & PositionLogprobs)[]
+): GenerationPositions {
+  return {
+    tokens: chunks.map((c) => c.token),
+    logprobsByPosition: chunks.map((c) => c.logprobs),
+    rawLogprobsByPosition: chunks.map((c) => c.rawLogprobs),
+    chosenLogprobs: chunks.map((c) => c.chosenLogprob),
+    entropyByPosition: chunks.map((c) => c.entropy),
+    residualMassByPosition: chunks.map((c) => c.residualMass),
+  };
+}
+
+/**
+ * Reads a single position back out of a generation.
+ * @param positions - The generation's positions
+ * @param index - Position index
+ * @returns The token at that position with its position data
+ */
+export function getPosition(
+  positions: GenerationPositions,
+  index: number
+): { token: string } & PositionLogprobs {
+  return {
+    token: positions.tokens[index],
+    logprobs: positions.logprobsByPosition[index],
+    rawLogprobs: positions.rawLogprobsByPosition[index],
+    chosenLogprob: positions.chosenLogprobs[index],
+    entropy: positions.entropyByPosition[index],
+    residualMass: positions.residualMassByPosition[index],
+  };
+}
@@ -0,0 +1,199 @@
+/**
+ * N-gram Language Model
+ *
+ * A tiny statistical language model that runs entirely in the browser.
+ * It counts which token follows each context in a training corpus and
+ * backs off to shorter contexts when a context was never seen.
+ * Output uses the same per-position shape as the API.
+ */
+
+import { NGRAM_CONFIG } from './constants';
+import {
+  collectPositions,
+  GenerationPositions,
+  PositionLogprobs,
+  summarizeCandidates,
+} from './logprobs';
+
+export type NgramLevel = 'word' | 'char';
+
+export interface NgramOptions {
+  order: number;
+  level: NgramLevel;
+}
+
+/**
+ * User-facing n-gram settings; a null corpus means the bundled one.
+ */
+export interface NgramSettings extends NgramOptions {
+  corpus: string | null;
+}
+
+export const DEFAULT_NGRAM_SETTINGS: NgramSettings = {
+  order: NGRAM_CONFIG.defaultOrder,
+  level: NGRAM_CONFIG.defaultLevel,
+  corpus: null,
+};
+
+/**
+ * Parses n-gram settings saved in localStorage, falling back to defaults.
+ * @param saved - The stored JSON string, if any
+ * @returns Valid n-gram settings
+ */
+export function parseNgramSettings(saved: string | null): NgramSettings {
+  if (!saved) return DEFAULT_NGRAM_SETTINGS;
+  try {
+    const parsed = JSON.parse(saved);
+    return {
+      order:
+        Number.isInteger(parsed.order) &&
+        parsed.order >= NGRAM_CONFIG.minOrder &&
+        parsed.order <= NGRAM_CONFIG.maxOrder
+          ? parsed.order
+          : DEFAULT_NGRAM_SETTINGS.order,
+      level: parsed.level === 'char' ? 'char' : 'word',
+      corpus: typeof parsed.corpus === 'string' ? parsed.corpus : null,
+    };
+  } catch {
+    return DEFAULT_NGRAM_SETTINGS;
+  }
+}
+
+export interface NgramModel extends NgramOptions {
+  // counts[n] maps a context of n tokens to next-token counts
+  counts: Map<string, Map<string, number>>[];
+}
+
+export interface NgramGenerationOptions {
+  maxTokens: number;
+  temperature: number;
+  numLogprobs: number;
+  random: () => number;
+}
+
+const CONTEXT_SEPARATOR = '\u0001';
+
+/**
+ * Splits text into tokens. Word tokens carry their leading space
+ * (e.g. " mat"), matching how LLM tokens are stitched together.
+ * @param text - The text to tokenize
+ * @param level - Word or character tokens
+ * @returns Array of tokens
+ */
+export function tokenize(text: string, level: NgramLevel): string[] {
+  const normalized = text.replace(/\s+/g, ' ');
+  if (level === 'char') {
+    return Array.from(normalized);
+  }
+  return normalized.match(/ ?[\w']+| ?[^\w\s]/g) ?? [];
+}
+
+/**
+ * Trains an n-gram model by counting continuations for every context
+ * length from 0 up to order - 1.
+ * @param corpus - Training text
+ * @param options - Model order and token level
+ * @returns The trained model
+ */
+export function trainNgramModel(
+  corpus: string,
+  { order, level }: NgramOptions
+): NgramModel {
+  const tokens = tokenize(corpus, level);
+  const counts: Map<string, Map<string, number>>[] = Array.from(
+    { length: order },
+    () => new Map()
+  );
+
+  for (let i = 0; i < tokens.length; i++) {
+    for (let n = 0; n < order && n <= i; n++) {
+      const context = tokens.slice(i - n, i).join(CONTEXT_SEPARATOR);
+      const next = counts[n].get(context) ?? new Map<string, number>();
+      next.set(tokens[i], (next.get(tokens[i]) ?? 0) + 1);
+      counts[n].set(context, next);
+    }
+  }
+
+  return { order, level, counts };
+}
+
+/**
+ * Finds next-token counts for the longest context seen during training.
+ */
+function lookupContinuations(
+  model: NgramModel,
+  history: string[]
+): Map<string, number> {
+  for (let n = Math.min(model.order - 1, history.length); n > 0; n--) {
+    const context = history.slice(-n).join(CONTEXT_SEPARATOR);
+    const next = model.counts[n].get(context);
+    if (next) return next;
+  }
+  return model.counts[0].get('') ?? new Map();
+}
+
+/**
+ * Generates a continuation token by token, sampling among the top
+ * candidates at each position so the chosen token is always on the wheel.
+ * @param model - A trained n-gram model
+ * @param prompt - Text to continue
+ * @param options - Sampling options and a random source
+ * @returns Generated tokens with their per-position distributions
+ */
+export function generateWithNgram(
+  model: NgramModel,
+  prompt: string,
+  { maxTokens, temperature, numLogprobs, random }: NgramGenerationOptions
+): GenerationPositions {
+  const history = tokenize(prompt, model.level);
+  const chunks: ({ token: string } & PositionLogprobs)[] = [];
+  const effectiveTemperature = Math.max(temperature, 0.01);
+
+  for (let position = 0; position < maxTokens; position++) {
+    const continuations = lookupContinuations(model, history);
+    if (continuations.size === 0) break;
+
+    // Temperature rescales counts (relative to the most likely token,
+    // to avoid underflow) into a full next-token distribution
+    const maxCount = Math.max(...continuations.values());
+    const weights = Array.from(continuations.entries()).map(
+      ([token, count]) => ({
+        token,
+        weight: Math.exp(Math.log(count / maxCount) / effectiveTemperature),
+      })
+    );
+    const total = weights.reduce((sum, w) => sum + w.weight, 0);
+
+    // Keep the top candidates; the rest becomes the residual mass
+    const candidates = weights
+      .map(({ token, weight }) => ({
+        token,
+        logprob: Math.log(weight / total),
+      }))
+      .sort((a, b) => b.logprob - a.logprob)
+      .slice(0, numLogprobs);
+
+    const topMass = candidates.reduce((sum, c) => sum + Math.exp(c.logprob), 0);
+
+    // Sample the next token (greedy at temperature 0)
+    let chosen = candidates[0];
+    if (temperature > 0) {
+      let threshold = random() * topMass;
+      for (const candidate of candidates) {
+        threshold -= Math.exp(candidate.logprob);
+        if (threshold <= 0) {
+          chosen = candidate;
+          break;
+        }
+      }
+    }
+
+    chunks.push({
+      token: chosen.token,
+      ...summarizeCandidates(candidates, chosen.logprob),
+    });
+    history.push(chosen.token);
+  }
+
+  return collectPositions(chunks);
+}
@@ -0,0 +1,192 @@
+/**
+ * Speculative Prefetch
+ *
+ * Generates continuations for alternative wedges before they are picked,
+ * so exploring a divergent branch doesn't wait on the model. Requests are
+ * keyed by the text they continue, which makes results reusable whenever
+ * the same text comes up again, e.g. after an undo.
+ */
+
+import { PREFETCH_CONFIG } from './constants';
+
+export interface PrefetchSettings {
+  // Alternative wedges to prefetch per wheel; 0 turns prefetching off
+  count: number;
+  // Prefetch requests allowed in flight at once
+  concurrency: number;
+  // Prefetch requests allowed in total
+  budget: number;
+}
+
+export const DEFAULT_PREFETCH_SETTINGS: PrefetchSettings = {
+  count: PREFETCH_CONFIG.defaultCount,
+  concurrency: PREFETCH_CONFIG.defaultConcurrency,
+  budget: PREFETCH_CONFIG.defaultBudget,
+};
+
+function isIntegerBetween(value: unknown, min: number, max: number) {
+  return (
+    Number.isInteger(value) &&
+    (value as number) >= min &&
+    (value as number) <= max
+  );
+}
+
+/**
+ * Parses prefetch settings saved in localStorage, falling back to defaults.
+ * @param saved - The stored JSON string, if any
+ * @returns Valid prefetch settings
+ */
+export function parsePrefetchSettings(saved: string | null): PrefetchSettings {
+  if (!saved) return DEFAULT_PREFETCH_SETTINGS;
+  try {
+    const parsed = JSON.parse(saved);
+    return {
+      count: isIntegerBetween(parsed.count, 0, PREFETCH_CONFIG.maxCount)
+        ? parsed.count
+        : DEFAULT_PREFETCH_SETTINGS.count,
+      concurrency: isIntegerBetween(
+        parsed.concurrency,
+        1,
+        PREFETCH_CONFIG.maxConcurrency
+      )
+        ? parsed.concurrency
+        : DEFAULT_PREFETCH_SETTINGS.concurrency,
+      budget: (PREFETCH_CONFIG.budgetOptions as readonly number[]).includes(
+        parsed.budget
+      )
+        ? parsed.budget
+        : DEFAULT_PREFETCH_SETTINGS.budget,
+    };
+  } catch {
+    return DEFAULT_PREFETCH_SETTINGS;
+  }
+}
+
+export interface PrefetchCandidate<T> {
+  // The text to continue, which identifies the request
+  key: string;
+  run: (controller: AbortController) => Promise<T>;
+}
+
+export interface PrefetchEntry<T> {
+  promise: Promise<T>;
+  // Set once the request succeeds, so callers can skip the loading state
+  result?: T;
+  // The promise has settled; a successful result may still be streaming
+  settled: boolean;
+  controller: AbortController;
+}
+
+export interface Prefetcher<T> {
+  /**
+   * Returns the request for a key, starting it right away if there is none.
+   * Requests made this way skip the queue and don't count against the budget.
+   */
+  request(candidate: PrefetchCandidate<T>): PrefetchEntry<T>;
+  /** Looks up a request without starting one. */
+  get(key: string): PrefetchEntry<T> | undefined;
+  /**
+   * Replaces the queue with the candidates for the wheel now showing, most
+   * likely first. Requests for any other key that are still pending or
+   * streaming are aborted, since their wheel has been left.
+   */
+  schedule(
+    candidates: PrefetchCandidate<T>[],
+    limits: Pick<PrefetchSettings, 'concurrency' | 'budget'>
+  ): void;
+}
+
+/**
+ * Creates an empty prefetcher. Failed requests are forgotten, so asking for
+ * the same key again makes a fresh request.
+ * @param canAbort - Whether a request that has resolved can still be
+ *   aborted, given its result: it is still streaming and nothing has taken
+ *   it over
+ */
+export function createPrefetcher<T>(
+  canAbort: (result: T) => boolean
+): Prefetcher<T> {
+  const entries = new Map<string, PrefetchEntry<T>>();
+  let queue: PrefetchCandidate<T>[] = [];
+  let limits = { concurrency: 0, budget: 0 };
+  // Queued prefetches that are waiting for a result
+  let running = 0;
+  // Queued prefetches started so far, counted against the budget
+  let started = 0;
+
+  const start = (candidate: PrefetchCandidate<T>, queued: boolean) => {
+    const controller = new AbortController();
+    const entry: PrefetchEntry<T> = {
+      promise: candidate.run(controller),
+      settled: false,
+      controller,
+    };
+    entries.set(candidate.key, entry);
+
+    entry.promise
+      .then(
+        (result) => {
+          entry.result = result;
+        },
+        () => {
+          if (entries.get(candidate.key) === entry) {
+            entries.delete(candidate.key);
+          }
+        }
+      )
+      .finally(() => {
+        entry.settled = true;
+        if (queued) {
+          running--;
+          pump();
+        }
+      });
+
+    return entry;
+  };
+
+  // Start queued prefetches while the limits allow
+  const pump = () => {
+    while (
+      queue.length > 0 &&
+      running < limits.concurrency &&
+      started < limits.budget
+    ) {
+      const candidate = queue.shift()!;
+      if (entries.has(candidate.key)) continue;
+      running++;
+      started++;
+      start(candidate, true);
+    }
+  };
+
+  return {
+    request(candidate) {
+      queue = queue.filter((c) => c.key !== candidate.key);
+      return entries.get(candidate.key) ?? start(candidate, false);
+    },
+
+    get(key) {
+      return entries.get(key);
+    },
+
+    schedule(candidates, newLimits) {
+      limits = newLimits;
+
+      const wanted = new Set(candidates.map((c) => c.key));
+      for (const [key, entry] of entries) {
+        const isAbortable =
+          !entry.settled ||
+          (entry.result !== undefined && canAbort(entry.result));
+        if (isAbortable && !wanted.has(key)) {
+          entry.controller.abort();
+          entries.delete(key);
+        }
+      }
+
+      queue = candidates.filter((c) => !entries.has(c.key));
+      pump();
+    },
+  };
+}
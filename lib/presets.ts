@@ -0,0 +1,225 @@
+/**
+ * Sampling Presets
+ *
+ * The model-side sampling parameters, and named presets that bundle them
+ * with temperature and length so a whole configuration can be switched in
+ * one go. A few presets are built in; the rest are the user's own, kept in
+ * localStorage and portable as JSON files.
+ */
+
+import {
+  DEFAULT_MAX_TOKENS,
+  DEFAULT_TEMPERATURE,
+  GENERATION_LIMITS,
+  TEMPERATURE_CONFIG,
+} from './constants';
+
+export interface GenerationParams {
+  topP: number;
+  topK: number;
+  // Alternatives returned per position, i.e. wedges on the wheel
+  numLogprobs: number;
+  // Fixed seed for reproducible generations; null lets the model pick
+  seed: number | null;
+}
+
+export const DEFAULT_GENERATION_PARAMS: GenerationParams = {
+  topP: 0.95,
+  topK: 40,
+  numLogprobs: 8,
+  seed: null,
+};
+
+// Everything a preset sets
+export interface PresetValues extends GenerationParams {
+  temperature: number;
+  maxTokens: number;
+}
+
+export interface SamplingPreset {
+  id: string;
+  name: string;
+  values: PresetValues;
+  // Built-in presets can't be renamed or deleted
+  builtIn?: boolean;
+}
+
+export const BUILT_IN_PRESETS: SamplingPreset[] = [
+  {
+    id: 'greedy',
+    name: 'Greedy',
+    builtIn: true,
+    values: {
+      temperature: 0,
+      topP: 1,
+      topK: 1,
+      numLogprobs: 8,
+      seed: null,
+      maxTokens: DEFAULT_MAX_TOKENS,
+    },
+  },
+  {
+    id: 'balanced',
+    name: 'Balanced',
+    builtIn: true,
+    values: {
+      ...DEFAULT_GENERATION_PARAMS,
+      temperature: DEFAULT_TEMPERATURE,
+      maxTokens: DEFAULT_MAX_TOKENS,
+    },
+  },
+  {
+    id: 'wild',
+    name: 'Wild',
+    builtIn: true,
+    values: {
+      temperature: 1.6,
+      topP: 1,
+      topK: 100,
+      numLogprobs: 12,
+      seed: null,
+      maxTokens: DEFAULT_MAX_TOKENS,
+    },
+  },
+];
+
+// Most user presets kept at once
+export const MAX_USER_PRESETS = 50;
+
+// Seeds are sent to providers as 32-bit integers
+export const MAX_SEED = 2 ** 31 - 1;
+
+function isNumberBetween(
+  value: unknown,
+  { min, max }: { min: number; max: number },
+  integer = false
+): value is number {
+  return (
+    typeof value === 'number' &&
+    (integer ? Number.isInteger(value) : Number.isFinite(value)) &&
+    value >= min &&
+    value <= max
+  );
+}
+
+/**
+ * Reads generation parameters, falling back to defaults for anything
+ * missing or out of range.
+ */
+function readGenerationParams(
+  value: Record<string, unknown>
+): GenerationParams {
+  return {
+    topP: isNumberBetween(value.topP, GENERATION_LIMITS.topP)
+      ? value.topP
+      : DEFAULT_GENERATION_PARAMS.topP,
+    topK: isNumberBetween(value.topK, GENERATION_LIMITS.topK, true)
+      ? value.topK
+      : DEFAULT_GENERATION_PARAMS.topK,
+    numLogprobs: isNumberBetween(
+      value.numLogprobs,
+      GENERATION_LIMITS.numLogprobs,
+      true
+    )
+      ? value.numLogprobs
+      : DEFAULT_GENERATION_PARAMS.numLogprobs,
+    seed: isNumberBetween(value.seed, { min: 0, max: MAX_SEED }, true)
+      ? value.seed
+      : null,
+  };
+}
+
+/**
+ * Parses generation parameters saved in localStorage, falling back to
+ * defaults.
+ * @param saved - The stored JSON string, if any
+ * @returns Valid generation parameters
+ */
+export function parseGenerationParams(saved: string | null): GenerationParams {
+  if (!saved) return DEFAULT_GENERATION_PARAMS;
+  try {
+    const parsed = JSON.parse(saved);
+    return typeof parsed === 'object' && parsed !== null
+      ? readGenerationParams(parsed)
+      : DEFAULT_GENERATION_PARAMS;
+  } catch {
+    return DEFAULT_GENERATION_PARAMS;
+  }
+}
+
+/**
+ * Checks a list of presets, e.g. from localStorage or an imported file.
+ * Malformed entries are skipped; values out of range fall back to defaults.
+ * @param value - Parsed JSON
+ * @returns The user presets it contains
+ */
+export function parsePresets(value: unknown): SamplingPreset[] {
+  if (!Array.isArray(value)) return [];
+
+  return value
+    .filter(
+      (preset): preset is Record<string, unknown> =>
+        typeof preset === 'object' &&
+        preset !== null &&
+        typeof preset.name === 'string' &&
+        preset.name.trim().length > 0 &&
+        typeof preset.values === 'object' &&
+        preset.values !== null
+    )
+    .slice(0, MAX_USER_PRESETS)
+    .map((preset) => {
+      const values = preset.values as Record<string, unknown>;
+      return {
+        id: typeof preset.id === 'string' ? preset.id : crypto.randomUUID(),
+        name: (preset.name as string).trim(),
+        values: {
+          ...readGenerationParams(values),
+          temperature: isNumberBetween(values.temperature, TEMPERATURE_CONFIG)
+            ? values.temperature
+            : DEFAULT_TEMPERATURE,
+          maxTokens: isNumberBetween(
+            values.maxTokens,
+            GENERATION_LIMITS.maxTokens,
+            true
+          )
+            ? values.maxTokens
+            : DEFAULT_MAX_TOKENS,
+        },
+      };
+    });
+}
+
+/**
+ * Reads the user's presets from localStorage.
+ * @param saved - The stored JSON string, if any
+ */
+export function loadUserPresets(saved: string | null): SamplingPreset[] {
+  if (!saved) return [];
+  try {
+    return parsePresets(JSON.parse(saved));
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Adds imported presets to the user's own. Imported presets replace
+ * existing ones with the same id; built-in ids are given new ones.
+ * @param existing - The user's presets
+ * @param imported - Presets from an imported file
+ * @returns The combined list
+ */
+export function mergePresets(
+  existing: SamplingPreset[],
+  imported: SamplingPreset[]
+): SamplingPreset[] {
+  const builtInIds = new Set(BUILT_IN_PRESETS.map((p) => p.id));
+  const incoming = imported.map((preset) =>
+    builtInIds.has(preset.id) ? { ...preset, id: crypto.randomUUID() } : preset
+  );
+  const incomingIds = new Set(incoming.map((p) => p.id));
+  return [...existing.filter((p) => !incomingIds.has(p.id)), ...incoming].slice(
+    0,
+    MAX_USER_PRESETS
+  );
+}
@@ -0,0 +1,193 @@
+import {
+  FinishReason as GeminiFinishReason,
+  GenerateContentRequest,
+  GenerateContentResponse,
+  GoogleGenerativeAI,
+  GoogleGenerativeAIAbortError,
+  GoogleGenerativeAIFetchError,
+} from '@google/generative-ai';
+import { collectPositions, summarizeCandidates } from '../logprobs';
+import {
+  FinishReason,
+  GenerationChunk,
+  MissingLogprobsError,
+  ModelProvider,
+  ProviderRequest,
+  SafetyBlockError,
+  UPSTREAM_TIMEOUT_MS,
+  upstreamHttpError,
+  UpstreamTimeoutError,
+} from './types';
+
+const genAI = new GoogleGenerativeAI(process.env.GEMINI_API_KEY || '');
+
+function buildRequest({
+  messages,
+  systemInstruction,
+  maxTokens,
+  temperature,
+  topP,
+  topK,
+  numLogprobs,
+  seed,
+}: ProviderRequest): GenerateContentRequest {
+  return {
+    contents: messages.map(({ role, content }) => ({
+      role: role === 'assistant' ? 'model' : 'user',
+      parts: [{ text: content }],
+    })),
+    generationConfig: {
+      temperature,
+      topP,
+      topK,
+      maxOutputTokens: maxTokens,
+      responseLogprobs: true,
+      logprobs: numLogprobs,
+      // Accepted by the API, though not yet in the SDK's types
+      ...(seed !== undefined && { seed }),
+    },
+    systemInstruction,
+  };
+}
+
+/**
+ * Maps SDK failures to the typed provider errors.
+ * Aborts requested by the caller are passed through unchanged.
+ */
+function toProviderError(error: unknown, signal?: AbortSignal): unknown {
+  if (signal?.aborted) {
+    return error;
+  }
+  if (error instanceof GoogleGenerativeAIAbortError) {
+    return new UpstreamTimeoutError();
+  }
+  if (error instanceof GoogleGenerativeAIFetchError && error.status) {
+    return upstreamHttpError(error.status, error.message);
+  }
+  return error;
+}
+
+// MAX_TOKENS means the length limit; STOP and the rest mean the model ended
+function toFinishReason(reason: GeminiFinishReason): FinishReason {
+  return reason === GeminiFinishReason.MAX_TOKENS ? 'length' : 'end-of-text';
+}
+
+/**
+ * Checks a response (or streamed chunk) for safety blocks and extracts
+ * its tokens and distributions, and why generation ended if it has.
+ * @param response - The response or streamed chunk
+ * @param hasOutput - Whether earlier chunks already produced tokens
+ */
+function extractLogprobs(
+  response: GenerateContentResponse,
+  hasOutput = false
+): { chunks: GenerationChunk[]; finishReason?: FinishReason } {
+  // CRITICAL: Check for safety blocks BEFORE accessing text()
+  // Gemini returns 200 OK but with no content when blocked
+  if (response.promptFeedback?.blockReason) {
+    throw new SafetyBlockError(response.promptFeedback.blockReason);
+  }
+
+  // Check if any candidates were returned
+  if (!response.candidates || response.candidates.length === 0) {
+    throw new Error('No content generated - empty response from Gemini');
+  }
+
+  const candidate = response.candidates[0];
+  const stoppedBySafety = candidate.finishReason === GeminiFinishReason.SAFETY;
+  const logprobsResult = candidate.logprobsResult;
+
+  // The final streamed chunk may only carry the finish reason
+  if (
+    candidate.content?.parts &&
+    !stoppedBySafety &&
+    (!logprobsResult || !logprobsResult.chosenCandidates)
+  ) {
+    throw new MissingLogprobsError();
+  }
+
+  // Extract tokens and their distributions by position
+  const chunks = (logprobsResult?.chosenCandidates ?? []).map((chosen, i) => ({
+    token: chosen.token,
+    ...summarizeCandidates(
+      (logprobsResult?.topCandidates[i]?.candidates ?? []).map((c) => ({
+        token: c.token,
+        logprob: c.logProbability,
+      })),
+      chosen.logProbability
+    ),
+  }));
+
+  // Check finish reason - generation may have stopped due to safety.
+  // Tokens generated before the filter stepped in are kept.
+  if (stoppedBySafety) {
+    if (!hasOutput && chunks.length === 0) {
+      throw new SafetyBlockError('Generation stopped by safety filter');
+    }
+    return { chunks, finishReason: 'safety' };
+  }
+
+  return {
+    chunks,
+    finishReason:
+      candidate.finishReason && toFinishReason(candidate.finishReason),
+  };
+}
+
+export const geminiProvider: ModelProvider = {
+  name: 'gemini',
+  defaultModel: 'gemini-2.0-flash-lite',
+  continuesReply: true,
+
+  async generate(request, signal) {
+    const model = genAI.getGenerativeModel(
+      { model: request.model },
+      { timeout: UPSTREAM_TIMEOUT_MS }
+    );
+
+    const result = await model
+      .generateContent(buildRequest(request), { signal })
+      .catch((error) => {
+        throw toProviderError(error, signal);
+      });
+    const response = result.response;
+    const { chunks, finishReason = 'end-of-text' } = extractLogprobs(response);
+
+    return {
+      // text() throws for safety stops, so use the tokens instead
+      text:
+        finishReason === 'safety'
+          ? chunks.map((c) => c.token).join('')
+          : response.text(),
+      ...collectPositions(chunks),
+      finishReason,
+    };
+  },
+
+  async *stream(request, signal) {
+    const model = genAI.getGenerativeModel(
+      { model: request.model },
+      { timeout: UPSTREAM_TIMEOUT_MS }
+    );
+
+    let finishReason: FinishReason = 'end-of-text';
+    let hasOutput = false;
+
+    try {
+      const result = await model.generateContentStream(buildRequest(request), {
+        signal,
+      });
+
+      for await (const chunk of result.stream) {
+        const extracted = extractLogprobs(chunk, hasOutput);
+        yield* extracted.chunks;
+        hasOutput ||= extracted.chunks.length > 0;
+        finishReason = extracted.finishReason ?? finishReason;
+      }
+
+      return finishReason;
+    } catch (error) {
+      throw toProviderError(error, signal);
+    }
+  },
+};
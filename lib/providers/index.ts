@@ -0,0 +1,76 @@
+import { geminiProvider } from './gemini';
+import { mockProvider } from './mock';
+import { openaiProvider } from './openai';
+import { ModelProvider, PROVIDER_NAMES, ProviderName } from './types';
+
+export * from './types';
+
+const PROVIDERS: Record<ProviderName, ModelProvider> = {
+  gemini: geminiProvider,
+  openai: openaiProvider,
+  mock: mockProvider,
+};
+
+export function isProviderName(value: unknown): value is ProviderName {
+  return (
+    typeof value === 'string' &&
+    (PROVIDER_NAMES as readonly string[]).includes(value)
+  );
+}
+
+/**
+ * Returns the provider set with the LLM_PROVIDER env variable, Gemini by
+ * default.
+ */
+export function getConfiguredProviderName(): ProviderName {
+  const configured = process.env.LLM_PROVIDER || 'gemini';
+  if (!isProviderName(configured)) {
+    throw new Error(`Unknown LLM_PROVIDER: ${configured}`);
+  }
+  return configured;
+}
+
+// Comma-separated env variable as a list
+function readList(name: string): string[] {
+  return (process.env[name] ?? '')
+    .split(',')
+    .map((item) => item.trim())
+    .filter((item) => item.length > 0);
+}
+
+/**
+ * Checks whether a request may pick a provider: one listed in
+ * LLM_PROVIDERS, or else only the configured one. The mock provider is
+ * never offered in production.
+ */
+export function isProviderAllowed(name: ProviderName): boolean {
+  if (name === 'mock' && process.env.NODE_ENV === 'production') return false;
+
+  const allowed = readList('LLM_PROVIDERS');
+  return allowed.length > 0
+    ? allowed.includes(name)
+    : name === getConfiguredProviderName();
+}
+
+/**
+ * Checks whether a request may pick a model. Only models listed in
+ * LLM_MODELS can be requested; otherwise the provider's own is used.
+ */
+export function isModelAllowed(model: string): boolean {
+  return readList('LLM_MODELS').includes(model);
+}
+
+/**
+ * Checks whether a provider can pick up a partial chat reply, falling back
+ * to the configured provider.
+ */
+export function canContinueReply(name?: ProviderName): boolean {
+  return getProvider(name).continuesReply;
+}
+
+/**
+ * Returns the requested provider, falling back to the configured one.
+ */
+export function getProvider(name?: ProviderName): ModelProvider {
+  return PROVIDERS[name ?? getConfiguredProviderName()];
+}
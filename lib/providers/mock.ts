@@ -0,0 +1,295 @@
+import { readFile } from 'fs/promises';
+import {
+  collectPositions,
+  getPosition,
+  summarizeCandidates,
+  TokenCandidate,
+} from '../logprobs';
+import { createSeededRandom, hashString } from '../random';
+import {
+  GenerationChunk,
+  GenerationResult,
+  MissingLogprobsError,
+  ModelProvider,
+  ProviderRequest,
+  QuotaExceededError,
+  SafetyBlockError,
+  UpstreamTimeoutError,
+} from './types';
+
+/**
+ * Scenarios the mock provider can simulate, selected with MOCK_SCENARIO.
+ * Each failure scenario mirrors a real provider failure mode.
+ */
+export const MOCK_SCENARIOS = [
+  'normal',
+  'safety-block',
+  'safety-stop',
+  'empty',
+  'no-logprobs',
+  'timeout',
+  'quota',
+] as const;
+
+export type MockScenario = (typeof MOCK_SCENARIOS)[number];
+
+// Vocabulary for synthetic generations (tokens carry their own spacing)
+const MOCK_VOCABULARY = [
+  ' the',
+  ' a',
+  ' cat',
+  ' dog',
+  ' sat',
+  ' ran',
+  ' on',
+  ' under',
+  ' mat',
+  ' table',
+  ' window',
+  ' garden',
+  ' quietly',
+  ' slowly',
+  ' and',
+  ' then',
+  ' it',
+  ' was',
+  ' warm',
+  ' sunny',
+  ' morning',
+  ' evening',
+  ' looked',
+  ' around',
+  ' happy',
+  ' old',
+  ' small',
+  ' house',
+  ',',
+  '.',
+];
+
+function isMockScenario(value: string): value is MockScenario {
+  return MOCK_SCENARIOS.some((scenario) => scenario === value);
+}
+
+function getScenario(): MockScenario {
+  const configured = process.env.MOCK_SCENARIO || 'normal';
+  if (!isMockScenario(configured)) {
+    throw new Error(`Unknown MOCK_SCENARIO: ${configured}`);
+  }
+  return configured;
+}
+
+/**
+ * Loads a recorded generation from a JSON fixture file.
+ * The fixture needs the { tokens, logprobsByPosition } fields the API returns.
+ */
+async function loadFixture(
+  path: string,
+  maxTokens: number
+): Promise<GenerationResult> {
+  const fixture = JSON.parse(await readFile(path, 'utf8'));
+
+  if (
+    !Array.isArray(fixture.tokens) ||
+    !Array.isArray(fixture.logprobsByPosition) ||
+    fixture.tokens.length !== fixture.logprobsByPosition.length
+  ) {
+    throw new Error(`Invalid mock fixture: ${path}`);
+  }
+
+  // Fixtures only need normalized probabilities; raw values are derived
+  const tokens: string[] = fixture.tokens.slice(0, maxTokens);
+  const chunks = tokens.map((token, i) => {
+    const probabilities: Record<string, number> = fixture.logprobsByPosition[i];
+    return {
+      token,
+      ...summarizeCandidates(
+        Object.entries(probabilities).map(([candidate, probability]) => ({
+          token: candidate,
+          logprob: Math.log(probability),
+        })),
+        Math.log(probabilities[token] ?? 0)
+      ),
+    };
+  });
+
+  return {
+    text: tokens.join(''),
+    ...collectPositions(chunks),
+    // Running out of recorded tokens counts as the model ending
+    finishReason: tokens.length < maxTokens ? 'end-of-text' : 'length',
+  };
+}
+
+/**
+ * Builds a reproducible synthetic generation. The same request and
+ * MOCK_SEED always produce the same tokens and distributions.
+ */
+function generateSynthetic({
+  messages,
+  systemInstruction,
+  model,
+  maxTokens,
+  temperature,
+  numLogprobs,
+  seed: requestSeed,
+}: ProviderRequest): GenerationResult {
+  const seed = requestSeed ?? (process.env.MOCK_SEED || '0');
+  const random = createSeededRandom(
+    hashString(
+      [
+        seed,
+        model,
+        systemInstruction,
+        ...messages.map((m) => `${m.role}:${m.content}`),
+        temperature,
+      ].join('\u0000')
+    )
+  );
+  const candidateCount = Math.min(numLogprobs, MOCK_VOCABULARY.length);
+  const effectiveTemperature = Math.max(temperature, 0.01);
+
+  const chunks: GenerationChunk[] = [];
+
+  for (let position = 0; position < maxTokens; position++) {
+    // Draw distinct candidates with a partial Fisher-Yates shuffle
+    const pool = [...MOCK_VOCABULARY];
+    for (let i = 0; i < candidateCount; i++) {
+      const j = i + Math.floor(random() * (pool.length - i));
+      [pool[i], pool[j]] = [pool[j], pool[i]];
+    }
+
+    // Decaying logits with some noise; the decay varies the entropy per position
+    const decay = 0.3 + random() * 1.2;
+    const logits = pool
+      .slice(0, candidateCount)
+      .map(
+        (_, rank) => (-rank * decay + random() * 0.5) / effectiveTemperature
+      );
+
+    // Leave some mass outside the top candidates, like a real model
+    const residual = 0.02 + random() * 0.1;
+    const maxLogit = Math.max(...logits);
+    const weights = logits.map((l) => Math.exp(l - maxLogit));
+    const total = weights.reduce((sum, w) => sum + w, 0);
+    const candidates: TokenCandidate[] = pool
+      .slice(0, candidateCount)
+      .map((token, i) => ({
+        token,
+        logprob: Math.log((weights[i] / total) * (1 - residual)),
+      }));
+
+    // Sample the chosen token (greedy at temperature 0)
+    let chosen = candidates[0];
+    if (temperature > 0) {
+      let threshold = random() * total;
+      for (let i = 0; i < candidates.length; i++) {
+        threshold -= weights[i];
+        if (threshold <= 0) {
+          chosen = candidates[i];
+          break;
+        }
+      }
+    }
+
+    chunks.push({
+      token: chosen.token,
+      ...summarizeCandidates(candidates, chosen.logprob),
+    });
+  }
+
+  return {
+    text: chunks.map((c) => c.token).join(''),
+    ...collectPositions(chunks),
+    // Synthetic generations always run to the token limit
+    finishReason: 'length',
+  };
+}
+
+/**
+ * Cuts a generation off halfway, the way a safety filter stepping in
+ * mid-response does. Tokens before the cut are kept.
+ */
+function stopForSafety(result: GenerationResult): GenerationResult {
+  const kept = Math.ceil(result.tokens.length / 2);
+  if (kept === 0) {
+    throw new SafetyBlockError('Generation stopped by safety filter');
+  }
+  const chunks = Array.from({ length: kept }, (_, i) => getPosition(result, i));
+  return {
+    text: chunks.map((c) => c.token).join(''),
+    ...collectPositions(chunks),
+    finishReason: 'safety',
+  };
+}
+
+// Waits like a network call would, giving up as soon as the caller aborts
+function sleep(ms: number, signal?: AbortSignal) {
+  return new Promise<void>((resolve, reject) => {
+    signal?.throwIfAborted();
+    const onAbort = () => {
+      clearTimeout(timeout);
+      reject(signal?.reason);
+    };
+    const timeout = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Offline, deterministic backend for development and tests.
+ * Configure with MOCK_SEED, MOCK_FIXTURE, MOCK_SCENARIO, MOCK_LATENCY_MS
+ * and MOCK_TOKEN_DELAY_MS.
+ */
+export const mockProvider: ModelProvider = {
+  name: 'mock',
+  defaultModel: 'mock-synthetic',
+  continuesReply: true,
+
+  async generate(request, signal) {
+    const latency = Number(process.env.MOCK_LATENCY_MS) || 0;
+    if (latency > 0) {
+      await sleep(latency, signal);
+    }
+
+    const scenario = getScenario();
+    switch (scenario) {
+      case 'safety-block':
+        throw new SafetyBlockError('SAFETY');
+      case 'empty':
+        throw new Error('No content generated - empty response from mock');
+      case 'no-logprobs':
+        throw new MissingLogprobsError();
+      case 'timeout':
+        throw new UpstreamTimeoutError();
+      case 'quota':
+        throw new QuotaExceededError('Mock quota exceeded', 30);
+    }
+
+    const fixture = process.env.MOCK_FIXTURE;
+    const result = fixture
+      ? await loadFixture(fixture, request.maxTokens)
+      : generateSynthetic(request);
+
+    if (scenario === 'safety-stop') {
+      return stopForSafety(result);
+    }
+    return result;
+  },
+
+  async *stream(request, signal) {
+    const result = await this.generate(request, signal);
+    const tokenDelay = Number(process.env.MOCK_TOKEN_DELAY_MS) || 0;
+
+    for (let i = 0; i < result.tokens.length; i++) {
+      if (tokenDelay > 0) {
+        await sleep(tokenDelay, signal);
+      }
+      yield getPosition(result, i);
+    }
+    return result.finishReason;
+  },
+};
@@ -0,0 +1,214 @@
+import { collectPositions, summarizeCandidates } from '../logprobs';
+import {
+  FinishReason,
+  GenerationChunk,
+  MissingLogprobsError,
+  ModelProvider,
+  ProviderRequest,
+  SafetyBlockError,
+  UPSTREAM_TIMEOUT_MS,
+  upstreamHttpError,
+  UpstreamTimeoutError,
+} from './types';
+
+const OPENAI_DEFAULT_BASE_URL = 'https://api.openai.com/v1';
+
+// The OpenAI API rejects more than 20 top logprobs per position
+const MAX_TOP_LOGPROBS = 20;
+
+interface ChatCompletionLogprob {
+  token: string;
+  logprob: number;
+  top_logprobs?: { token: string; logprob: number }[];
+}
+
+interface ChatCompletionChoice {
+  finish_reason?: string | null;
+  message?: { content?: string | null };
+  logprobs?: { content?: ChatCompletionLogprob[] | null } | null;
+}
+
+interface ChatCompletionResponse {
+  choices?: ChatCompletionChoice[];
+}
+
+// AbortSignal.timeout rejects with a TimeoutError DOMException
+function rethrowTimeout(error: unknown): never {
+  if (error instanceof Error && error.name === 'TimeoutError') {
+    throw new UpstreamTimeoutError();
+  }
+  throw error;
+}
+
+async function sendChatCompletion(
+  {
+    messages,
+    systemInstruction,
+    model,
+    maxTokens,
+    temperature,
+    topP,
+    topK,
+    numLogprobs,
+    seed,
+  }: ProviderRequest,
+  stream: boolean,
+  signal?: AbortSignal
+): Promise<Response> {
+  const baseUrl = (
+    process.env.OPENAI_BASE_URL || OPENAI_DEFAULT_BASE_URL
+  ).replace(/\/+$/, '');
+  const isOfficialApi = baseUrl === OPENAI_DEFAULT_BASE_URL;
+
+  const response = await fetch(`${baseUrl}/chat/completions`, {
+    method: 'POST',
+    signal: signal
+      ? AbortSignal.any([signal, AbortSignal.timeout(UPSTREAM_TIMEOUT_MS)])
+      : AbortSignal.timeout(UPSTREAM_TIMEOUT_MS),
+    headers: {
+      'Content-Type': 'application/json',
+      ...(process.env.OPENAI_API_KEY && {
+        Authorization: `Bearer ${process.env.OPENAI_API_KEY}`,
+      }),
+    },
+    body: JSON.stringify({
+      model,
+      messages: [{ role: 'system', content: systemInstruction }, ...messages],
+      max_tokens: maxTokens,
+      temperature,
+      top_p: topP,
+      // top_k is not part of the OpenAI API, but llama.cpp and vLLM accept it
+      ...(!isOfficialApi && { top_k: topK }),
+      seed,
+      logprobs: true,
+      top_logprobs: Math.min(numLogprobs, MAX_TOP_LOGPROBS),
+      stream,
+    }),
+  }).catch(rethrowTimeout);
+
+  if (!response.ok) {
+    const body = await response.text();
+    throw upstreamHttpError(
+      response.status,
+      `OpenAI-compatible request failed (${response.status}): ${body}`,
+      response.headers.get('Retry-After')
+    );
+  }
+
+  return response;
+}
+
+// 'length' means max_tokens; 'stop' and the rest mean the model ended
+function toFinishReason(reason: string): FinishReason {
+  return reason === 'length' ? 'length' : 'end-of-text';
+}
+
+/**
+ * Checks a choice for content filtering and returns its per-token logprobs,
+ * and why generation ended if it has.
+ * @param choice - The choice, or a streamed delta of it
+ * @param hasOutput - Whether earlier chunks already produced tokens
+ */
+function extractLogprobs(
+  choice: ChatCompletionChoice,
+  hasOutput = false
+): { chunks: GenerationChunk[]; finishReason?: FinishReason } {
+  const content = choice.logprobs?.content ?? [];
+
+  if (content.some((c) => !c.top_logprobs)) {
+    throw new MissingLogprobsError();
+  }
+
+  const chunks = content.map((c) => ({
+    token: c.token,
+    ...summarizeCandidates(c.top_logprobs ?? [], c.logprob),
+  }));
+
+  // Check finish reason - generation may have stopped due to moderation.
+  // Tokens generated before the filter stepped in are kept.
+  if (choice.finish_reason === 'content_filter') {
+    if (!hasOutput && chunks.length === 0) {
+      throw new SafetyBlockError('Generation stopped by content filter');
+    }
+    return { chunks, finishReason: 'safety' };
+  }
+
+  return {
+    chunks,
+    finishReason: choice.finish_reason
+      ? toFinishReason(choice.finish_reason)
+      : undefined,
+  };
+}
+
+/**
+ * OpenAI-compatible chat completions backend.
+ * Works against api.openai.com as well as local llama.cpp / vLLM servers
+ * that implement `logprobs` / `top_logprobs`.
+ */
+export const openaiProvider: ModelProvider = {
+  name: 'openai',
+  defaultModel: 'gpt-4o-mini',
+  // Chat completions answer a trailing assistant message instead
+  continuesReply: false,
+
+  async generate(request, signal) {
+    const response = await sendChatCompletion(request, false, signal);
+    const data: ChatCompletionResponse = await response.json();
+
+    // Check if any choices were returned
+    if (!data.choices || data.choices.length === 0) {
+      throw new Error('No content generated - empty response from provider');
+    }
+
+    const choice = data.choices[0];
+    const { chunks, finishReason = 'end-of-text' } = extractLogprobs(choice);
+
+    if (chunks.length === 0) {
+      throw new MissingLogprobsError();
+    }
+
+    return {
+      text: choice.message?.content ?? chunks.map((c) => c.token).join(''),
+      ...collectPositions(chunks),
+      finishReason,
+    };
+  },
+
+  async *stream(request, signal) {
+    const response = await sendChatCompletion(request, true, signal);
+    if (!response.body) {
+      throw new Error('No content generated - empty response from provider');
+    }
+
+    // Server-sent events: one `data: {...}` line per chunk, ending with [DONE]
+    const reader = response.body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    let finishReason: FinishReason = 'end-of-text';
+    let hasOutput = false;
+
+    while (true) {
+      const { done, value } = await reader.read().catch(rethrowTimeout);
+      if (done) return finishReason;
+
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split('\n');
+      buffer = lines.pop() ?? '';
+
+      for (const line of lines) {
+        const data = line.trim().replace(/^data:\s*/, '');
+        if (!line.startsWith('data:') || data === '[DONE]') continue;
+
+        const parsed: ChatCompletionResponse = JSON.parse(data);
+        const choice = parsed.choices?.[0];
+        if (choice) {
+          const extracted = extractLogprobs(choice, hasOutput);
+          yield* extracted.chunks;
+          hasOutput ||= extracted.chunks.length > 0;
+          finishReason = extracted.finishReason ?? finishReason;
+        }
+      }
+    }
+  },
+};
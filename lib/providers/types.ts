@@ -0,0 +1,165 @@
+import { GenerationPositions, PositionLogprobs } from '../logprobs';
+
+export const PROVIDER_NAMES = ['gemini', 'openai', 'mock'] as const;
+
+export type ProviderName = (typeof PROVIDER_NAMES)[number];
+
+export const CHAT_ROLES = ['user', 'assistant'] as const;
+
+export type ChatRole = (typeof CHAT_ROLES)[number];
+
+// One turn of a conversation
+export interface ChatMessage {
+  role: ChatRole;
+  content: string;
+}
+
+// Why a generation ended
+export const FINISH_REASONS = [
+  'length',
+  'stop-sequence',
+  'sentence-end',
+  'end-of-text',
+  'safety',
+] as const;
+
+export type FinishReason = (typeof FINISH_REASONS)[number];
+
+// Custom error class for safety blocks
+export class SafetyBlockError extends Error {
+  reason: string;
+
+  constructor(reason: string) {
+    super(`Content blocked due to: ${reason}`);
+    this.name = 'SafetyBlockError';
+    this.reason = reason;
+  }
+}
+
+// The upstream API did not answer in time
+export class UpstreamTimeoutError extends Error {
+  constructor(message = 'The model provider did not respond in time') {
+    super(message);
+    this.name = 'UpstreamTimeoutError';
+  }
+}
+
+// The upstream API rejected the request because of its own quota
+export class QuotaExceededError extends Error {
+  // Seconds to wait, when the provider says
+  retryAfter?: number;
+
+  constructor(message: string, retryAfter?: number) {
+    super(message);
+    this.name = 'QuotaExceededError';
+    this.retryAfter = retryAfter;
+  }
+}
+
+// The response had no per-token logprobs to build a wheel from
+export class MissingLogprobsError extends Error {
+  constructor(message = 'No logprobs returned - check API configuration') {
+    super(message);
+    this.name = 'MissingLogprobsError';
+  }
+}
+
+// Upstream requests are cut off before the route's maxDuration
+export const UPSTREAM_TIMEOUT_MS = 25_000;
+
+/**
+ * Maps an upstream HTTP failure to a typed error where one applies.
+ * @param status - The upstream status code
+ * @param message - Message for the thrown error
+ * @param retryAfter - The upstream Retry-After header, if any
+ */
+export function upstreamHttpError(
+  status: number,
+  message: string,
+  retryAfter?: string | null
+): Error {
+  if (status === 429) {
+    return new QuotaExceededError(message, Number(retryAfter) || undefined);
+  }
+  if (status === 408 || status === 504) {
+    return new UpstreamTimeoutError(message);
+  }
+  return new Error(message);
+}
+
+export interface GenerationOptions {
+  // The text to continue, or in chat mode the latest user message
+  prompt: string;
+  // Chat mode: the turns before the prompt, oldest first
+  history?: ChatMessage[];
+  // Chat mode: the assistant's reply so far, for the model to continue
+  reply?: string;
+  systemInstruction?: string;
+  maxTokens?: number;
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  numLogprobs?: number;
+  // Makes sampling reproducible where the provider supports it
+  seed?: number;
+  // Applied to the generated text by generateWithLogprobs/streamWithLogprobs
+  stopSequences?: string[];
+  stopAtSentenceEnd?: boolean;
+  provider?: ProviderName;
+  model?: string;
+}
+
+export interface GenerationResult extends GenerationPositions {
+  text: string;
+  finishReason: FinishReason;
+}
+
+/**
+ * A single generated token and the distribution it was chosen from,
+ * emitted while a generation is streaming.
+ */
+export interface GenerationChunk extends PositionLogprobs {
+  token: string;
+}
+
+/**
+ * Options handed to a provider once defaults have been applied
+ * and the model has been resolved. The prompt, history and reply become
+ * the conversation to send.
+ */
+export type ProviderRequest = Required<
+  Omit<
+    GenerationOptions,
+    'prompt' | 'history' | 'reply' | 'provider' | 'systemInstruction' | 'seed'
+  >
+> & {
+  // Ends with the user's turn, or with a partial assistant reply
+  messages: ChatMessage[];
+  systemInstruction: string;
+  seed?: number;
+};
+
+/**
+ * A backend capable of generating text with per-token log-probabilities.
+ * The optional signal aborts the upstream call, e.g. when the client that
+ * asked for it has gone away.
+ */
+export interface ModelProvider {
+  name: ProviderName;
+  defaultModel: string;
+  // Whether a trailing assistant turn is continued rather than answered,
+  // which chat mode needs to branch partway through a reply
+  continuesReply: boolean;
+  generate(
+    request: ProviderRequest,
+    signal?: AbortSignal
+  ): Promise<GenerationResult>;
+  /**
+   * Yields tokens as they arrive and returns why generation ended.
+   * Providers without it fall back to generate.
+   */
+  stream?(
+    request: ProviderRequest,
+    signal?: AbortSignal
+  ): AsyncGenerator<GenerationChunk, FinishReason>;
+}
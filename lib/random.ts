@@ -0,0 +1,36 @@
+/**
+ * Seeded Random Utilities
+ *
+ * Small deterministic PRNG helpers so that synthetic generations and
+ * samples can be reproduced from a seed.
+ */
+
+/**
+ * Hashes a string into a 32-bit unsigned integer (FNV-1a).
+ * @param value - The string to hash
+ * @returns A 32-bit seed
+ */
+export function hashString(value: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < value.length; i++) {
+    hash ^= value.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+/**
+ * Creates a seeded random number generator (mulberry32).
+ * @param seed - Any 32-bit integer
+ * @returns A function returning floats in [0, 1), like Math.random
+ */
+export function createSeededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,205 @@
+import { createMemoryStore } from './memory';
+import {
+  BucketState,
+  RATE_LIMIT_STORE_NAMES,
+  RateLimitResult,
+  RateLimitStore,
+  RateLimitStoreName,
+} from './types';
+
+export * from './types';
+
+// Request header carrying the client's per-tab session id
+export const SESSION_ID_HEADER = 'X-Session-Id';
+
+interface BucketConfig {
+  // Burst size
+  capacity: number;
+  refillPerMinute: number;
+}
+
+function isRateLimitStoreName(value: unknown): value is RateLimitStoreName {
+  return (
+    typeof value === 'string' &&
+    (RATE_LIMIT_STORE_NAMES as readonly string[]).includes(value)
+  );
+}
+
+// Created on first use; null when rate limiting is turned off
+let store: RateLimitStore | null | undefined;
+
+/**
+ * Returns the store selected with RATE_LIMIT ("memory" by default, or
+ * "off" to disable rate limiting).
+ */
+function getStore(): RateLimitStore | null {
+  if (store !== undefined) return store;
+
+  const configured = process.env.RATE_LIMIT || 'memory';
+  if (configured === 'off') {
+    store = null;
+  } else if (!isRateLimitStoreName(configured)) {
+    throw new Error(`Unknown RATE_LIMIT: ${configured}`);
+  } else {
+    store = createMemoryStore();
+  }
+  return store;
+}
+
+function readNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] !== undefined && Number.isFinite(value) && value >= 0
+    ? value
+    : fallback;
+}
+
+// Defaults, overridable with RATE_LIMIT_IP_* and RATE_LIMIT_SESSION_*
+const DEFAULT_BUCKETS: Record<'ip' | 'session', BucketConfig> = {
+  ip: { capacity: 30, refillPerMinute: 10 },
+  session: { capacity: 20, refillPerMinute: 6 },
+};
+
+function getBucketConfig(scope: 'ip' | 'session'): BucketConfig {
+  const prefix = `RATE_LIMIT_${scope.toUpperCase()}`;
+  const defaults = DEFAULT_BUCKETS[scope];
+  return {
+    capacity: readNumber(`${prefix}_CAPACITY`, defaults.capacity),
+    refillPerMinute: readNumber(
+      `${prefix}_REFILL_PER_MINUTE`,
+      defaults.refillPerMinute
+    ),
+  };
+}
+
+// A limit whose state has been read, ready to be charged one request
+interface PendingTake {
+  key: string;
+  state: BucketState;
+}
+
+/**
+ * Reads a token bucket that refills continuously, without taking from it.
+ * @returns The bucket to charge, or the seconds until a request is available
+ */
+async function peekBucket(
+  bucketStore: RateLimitStore,
+  key: string,
+  { capacity, refillPerMinute }: BucketConfig,
+  now: number
+): Promise<PendingTake | number> {
+  const saved = await bucketStore.get(key);
+  const refillPerMs = refillPerMinute / 60_000;
+  const tokens = saved
+    ? Math.min(capacity, saved.tokens + (now - saved.updatedAt) * refillPerMs)
+    : capacity;
+
+  if (tokens < 1) {
+    return refillPerMs > 0 ? Math.ceil((1 - tokens) / refillPerMs / 1000) : 60;
+  }
+  return { key, state: { tokens: tokens - 1, updatedAt: now } };
+}
+
+/**
+ * Reads the global budget, which resets at midnight UTC, without taking
+ * from it.
+ * @returns The budget to charge, or the seconds until it resets
+ */
+async function peekDailyBudget(
+  bucketStore: RateLimitStore,
+  budget: number,
+  now: number
+): Promise<PendingTake | number> {
+  const today = new Date(now).toISOString().slice(0, 10);
+  const key = `daily:${today}`;
+  const saved = await bucketStore.get(key);
+  const remaining = saved?.tokens ?? budget;
+
+  if (remaining < 1) {
+    const midnight = Date.parse(`${today}T00:00:00Z`) + 24 * 60 * 60 * 1000;
+    return Math.ceil((midnight - now) / 1000);
+  }
+  return { key, state: { tokens: remaining - 1, updatedAt: now } };
+}
+
+/**
+ * Returns the client IP. Forwarding headers can be set by any client, so
+ * they are only read behind a proxy trusted with RATE_LIMIT_TRUST_PROXY -
+ * taking the address that proxy saw, the last in x-forwarded-for - or on
+ * Vercel, which sets x-real-ip itself. Otherwise all clients share one
+ * IP bucket, making the per-IP limit a global one.
+ */
+function getClientIp(request: Request): string {
+  if (process.env.RATE_LIMIT_TRUST_PROXY === 'true') {
+    const forwarded = request.headers.get('x-forwarded-for');
+    return (
+      request.headers.get('x-real-ip') ||
+      forwarded?.split(',').at(-1)?.trim() ||
+      'unknown'
+    );
+  }
+  if (process.env.VERCEL) {
+    return request.headers.get('x-real-ip') || 'unknown';
+  }
+  return 'unknown';
+}
+
+/**
+ * Checks a generation request against the per-IP and per-session token
+ * buckets and the global daily budget (RATE_LIMIT_DAILY_BUDGET, 0 for
+ * none), consuming one request from each only if all of them allow it.
+ * Session ids come from the client and are easy to rotate, so the IP
+ * bucket is the limit that actually stops abuse.
+ * @param request - The incoming request
+ * @returns Whether the request may proceed, and if not, which limit it
+ *   hit and how many seconds to wait
+ */
+export async function checkRateLimit(
+  request: Request
+): Promise<RateLimitResult> {
+  const bucketStore = getStore();
+  if (!bucketStore) return { allowed: true };
+
+  const now = Date.now();
+  // Nothing is charged until every limit has room, so a request turned
+  // away by one limit does not use up the others
+  const takes: PendingTake[] = [];
+
+  let check = await peekBucket(
+    bucketStore,
+    `ip:${getClientIp(request)}`,
+    getBucketConfig('ip'),
+    now
+  );
+  if (typeof check === 'number') {
+    return { allowed: false, scope: 'ip', retryAfter: check };
+  }
+  takes.push(check);
+
+  const sessionId = request.headers.get(SESSION_ID_HEADER);
+  if (sessionId) {
+    check = await peekBucket(
+      bucketStore,
+      `session:${sessionId.slice(0, 100)}`,
+      getBucketConfig('session'),
+      now
+    );
+    if (typeof check === 'number') {
+      return { allowed: false, scope: 'session', retryAfter: check };
+    }
+    takes.push(check);
+  }
+
+  const budget = readNumber('RATE_LIMIT_DAILY_BUDGET', 0);
+  if (budget > 0) {
+    check = await peekDailyBudget(bucketStore, budget, now);
+    if (typeof check === 'number') {
+      return { allowed: false, scope: 'daily', retryAfter: check };
+    }
+    takes.push(check);
+  }
+
+  for (const { key, state } of takes) {
+    await bucketStore.set(key, state);
+  }
+  return { allowed: true };
+}
@@ -0,0 +1,30 @@
+import { BucketState, RateLimitStore } from './types';
+
+// Buckets untouched for this long are full again and can be dropped
+const STALE_AFTER_MS = 24 * 60 * 60 * 1000;
+const PRUNE_THRESHOLD = 10_000;
+
+/**
+ * In-memory store, local to a single server process.
+ */
+export function createMemoryStore(): RateLimitStore {
+  const buckets = new Map<string, BucketState>();
+
+  return {
+    async get(key) {
+      return buckets.get(key);
+    },
+
+    async set(key, state) {
+      buckets.set(key, state);
+
+      // Keep one-off visitors from growing the map forever
+      if (buckets.size > PRUNE_THRESHOLD) {
+        const cutoff = Date.now() - STALE_AFTER_MS;
+        buckets.forEach((bucket, bucketKey) => {
+          if (bucket.updatedAt < cutoff) buckets.delete(bucketKey);
+        });
+      }
+    },
+  };
+}
@@ -0,0 +1,27 @@
+export const RATE_LIMIT_STORE_NAMES = ['memory'] as const;
+
+export type RateLimitStoreName = (typeof RATE_LIMIT_STORE_NAMES)[number];
+
+// Which limit a request ran into
+export type RateLimitScope = 'ip' | 'session' | 'daily';
+
+export interface BucketState {
+  // Requests left in the bucket
+  tokens: number;
+  // Epoch milliseconds of the last refill
+  updatedAt: number;
+}
+
+/**
+ * Storage backend for rate limit buckets.
+ * Implement this interface to share limits between server instances
+ * (e.g. with Redis).
+ */
+export interface RateLimitStore {
+  get(key: string): Promise<BucketState | undefined>;
+  set(key: string, state: BucketState): Promise<void>;
+}
+
+export type RateLimitResult =
+  | { allowed: true }
+  | { allowed: false; scope: RateLimitScope; retryAfter: number };
@@ -0,0 +1,182 @@
+/**
+ * Client-side Sampling Utilities
+ *
+ * Re-shapes a next-token distribution the way a sampler would before
+ * drawing from it, so the wheel can show the effect of each setting.
+ * Filters are applied in order: temperature, top-k, top-p, min-p.
+ */
+
+import { SAMPLING_CONTROLS_CONFIG } from './constants';
+
+export interface SamplingControls {
+  temperature: number;
+  // 0 disables top-k
+  topK: number;
+  // 1 disables top-p
+  topP: number;
+  // 0 disables min-p
+  minP: number;
+}
+
+export const DEFAULT_SAMPLING_CONTROLS: SamplingControls = {
+  temperature: 1,
+  topK: 0,
+  topP: 1,
+  minP: 0,
+};
+
+function isNumberBetween(
+  value: unknown,
+  { min, max }: { min: number; max: number }
+): value is number {
+  return (
+    typeof value === 'number' &&
+    Number.isFinite(value) &&
+    value >= min &&
+    value <= max
+  );
+}
+
+/**
+ * Parses sampling controls saved in localStorage, falling back to defaults.
+ * @param saved - The stored JSON string, if any
+ * @returns Valid sampling controls
+ */
+export function parseSamplingControls(saved: string | null): SamplingControls {
+  if (!saved) return DEFAULT_SAMPLING_CONTROLS;
+  try {
+    const parsed = JSON.parse(saved);
+    const { temperature, topK, topP, minP } = SAMPLING_CONTROLS_CONFIG;
+    return {
+      temperature: isNumberBetween(parsed.temperature, temperature)
+        ? parsed.temperature
+        : DEFAULT_SAMPLING_CONTROLS.temperature,
+      topK:
+        Number.isInteger(parsed.topK) && isNumberBetween(parsed.topK, topK)
+          ? parsed.topK
+          : DEFAULT_SAMPLING_CONTROLS.topK,
+      topP: isNumberBetween(parsed.topP, topP)
+        ? parsed.topP
+        : DEFAULT_SAMPLING_CONTROLS.topP,
+      minP: isNumberBetween(parsed.minP, minP)
+        ? parsed.minP
+        : DEFAULT_SAMPLING_CONTROLS.minP,
+    };
+  } catch {
+    return DEFAULT_SAMPLING_CONTROLS;
+  }
+}
+
+export type CutoffReason = 'temperature' | 'top-k' | 'top-p' | 'min-p';
+
+export interface RemovedToken {
+  token: string;
+  // Probability before re-shaping
+  probability: number;
+  reason: CutoffReason;
+}
+
+export interface ReshapedDistribution {
+  kept: Record<string, number>;
+  removed: RemovedToken[];
+}
+
+/**
+ * Checks whether any control differs from its neutral value.
+ */
+export function hasActiveSamplingControls(controls: SamplingControls): boolean {
+  return (
+    controls.temperature !== DEFAULT_SAMPLING_CONTROLS.temperature ||
+    controls.topK !== DEFAULT_SAMPLING_CONTROLS.topK ||
+    controls.topP !== DEFAULT_SAMPLING_CONTROLS.topP ||
+    controls.minP !== DEFAULT_SAMPLING_CONTROLS.minP
+  );
+}
+
+/**
+ * Applies temperature scaling, top-k, top-p and min-p filtering to a
+ * distribution and renormalizes what is left.
+ * @param probabilities - Object with token keys and probability values
+ * @param controls - Sampling settings
+ * @returns The re-shaped distribution and the tokens that were cut off
+ */
+export function applySamplingControls(
+  probabilities: Record<string, number>,
+  { temperature, topK, topP, minP }: SamplingControls
+): ReshapedDistribution {
+  const sorted = Object.entries(probabilities)
+    .map(([token, probability]) => ({ token, probability }))
+    .sort((a, b) => b.probability - a.probability);
+
+  if (sorted.length === 0) {
+    return { kept: {}, removed: [] };
+  }
+
+  const removed: RemovedToken[] = [];
+  const cut = (
+    entries: { token: string; probability: number }[],
+    reason: CutoffReason
+  ) => {
+    entries.forEach(({ token }) =>
+      removed.push({ token, probability: probabilities[token], reason })
+    );
+  };
+
+  // Temperature: p^(1/T), renormalized. T = 0 is greedy decoding.
+  let candidates: { token: string; probability: number }[];
+  if (temperature <= 0) {
+    candidates = [{ token: sorted[0].token, probability: 1 }];
+    cut(sorted.slice(1), 'temperature');
+  } else {
+    const maxLog = Math.log(sorted[0].probability);
+    const scaled = sorted.map(({ token, probability }) => ({
+      token,
+      probability: Math.exp((Math.log(probability) - maxLog) / temperature),
+    }));
+    const total = scaled.reduce((sum, c) => sum + c.probability, 0);
+    candidates = scaled.map((c) => ({
+      ...c,
+      probability: c.probability / total,
+    }));
+  }
+
+  // Top-k: keep the k most likely tokens
+  if (topK > 0 && candidates.length > topK) {
+    cut(candidates.slice(topK), 'top-k');
+    candidates = candidates.slice(0, topK);
+  }
+
+  // Top-p: keep the smallest set whose cumulative probability reaches p
+  if (topP < 1) {
+    const total = candidates.reduce((sum, c) => sum + c.probability, 0);
+    let cumulative = 0;
+    let keep = candidates.length;
+    for (let i = 0; i < candidates.length; i++) {
+      cumulative += candidates[i].probability / total;
+      if (cumulative >= topP) {
+        keep = i + 1;
+        break;
+      }
+    }
+    cut(candidates.slice(keep), 'top-p');
+    candidates = candidates.slice(0, keep);
+  }
+
+  // Min-p: drop tokens less likely than minP times the top token
+  if (minP > 0) {
+    const threshold = candidates[0].probability * minP;
+    cut(
+      candidates.filter((c) => c.probability < threshold),
+      'min-p'
+    );
+    candidates = candidates.filter((c) => c.probability >= threshold);
+  }
+
+  const total = candidates.reduce((sum, c) => sum + c.probability, 0);
+  const kept: Record<string, number> = {};
+  candidates.forEach(({ token, probability }) => {
+    kept[token] = probability / total;
+  });
+
+  return { kept, removed };
+}
@@ -0,0 +1,316 @@
+/**
+ * Request and Response Schemas
+ *
+ * The contract for /api/generate, shared by the routes and the client.
+ * Each field is described by a parser that returns the value or throws a
+ * SchemaError, so a whole body can be checked at once and every bad field
+ * reported by name.
+ */
+
+import { GENERATION_LIMITS, TEMPERATURE_CONFIG } from './constants';
+import { GENERATION_ERROR_CODES } from './error-codes';
+import { GenerationPositions } from './logprobs';
+import { MAX_SEED } from './presets';
+import {
+  CHAT_ROLES,
+  FINISH_REASONS,
+  FinishReason,
+  PROVIDER_NAMES,
+} from './providers/types';
+
+// Field name -> what is wrong with it
+export type FieldErrors = Record<string, string>;
+
+export type ParseResult<T> =
+  | { success: true; data: T }
+  | { success: false; errors: FieldErrors };
+
+class SchemaError extends Error {}
+
+type Parser<T> = (value: unknown) => T;
+
+type Schema = Record<string, Parser<unknown>>;
+
+// Fields that may be undefined become optional properties
+type Infer<S extends Schema> = {
+  [K in keyof S as undefined extends ReturnType<S[K]> ? never : K]: ReturnType<
+    S[K]
+  >;
+} & {
+  [K in keyof S as undefined extends ReturnType<S[K]> ? K : never]?: ReturnType<
+    S[K]
+  >;
+};
+
+function string({
+  minLength = 0,
+  maxLength = Infinity,
+}: { minLength?: number; maxLength?: number } = {}): Parser<string> {
+  return (value) => {
+    if (typeof value !== 'string') {
+      throw new SchemaError('must be a string');
+    }
+    if (value.length < minLength) {
+      throw new SchemaError(minLength === 1 ? 'is required' : 'is too short');
+    }
+    if (value.length > maxLength) {
+      throw new SchemaError(`must be at most ${maxLength} characters`);
+    }
+    return value;
+  };
+}
+
+function number({
+  min = -Infinity,
+  max = Infinity,
+  integer = false,
+}: { min?: number; max?: number; integer?: boolean } = {}): Parser<number> {
+  return (value) => {
+    if (typeof value !== 'number' || !Number.isFinite(value)) {
+      throw new SchemaError('must be a number');
+    }
+    if (integer && !Number.isInteger(value)) {
+      throw new SchemaError('must be a whole number');
+    }
+    if (value < min || value > max) {
+      throw new SchemaError(`must be between ${min} and ${max}`);
+    }
+    return value;
+  };
+}
+
+function boolean(): Parser<boolean> {
+  return (value) => {
+    if (typeof value !== 'boolean') {
+      throw new SchemaError('must be true or false');
+    }
+    return value;
+  };
+}
+
+function oneOf<T extends string>(values: readonly T[]): Parser<T> {
+  return (value) => {
+    if (!values.includes(value as T)) {
+      throw new SchemaError(`must be one of: ${values.join(', ')}`);
+    }
+    return value as T;
+  };
+}
+
+function literal<T extends string | boolean>(expected: T): Parser<T> {
+  return (value) => {
+    if (value !== expected) {
+      throw new SchemaError(`must be ${JSON.stringify(expected)}`);
+    }
+    return expected;
+  };
+}
+
+function array<T>(
+  item: Parser<T>,
+  { maxItems = Infinity }: { maxItems?: number } = {}
+): Parser<T[]> {
+  return (value) => {
+    if (!Array.isArray(value)) {
+      throw new SchemaError('must be a list');
+    }
+    if (value.length > maxItems) {
+      throw new SchemaError(`must have at most ${maxItems} items`);
+    }
+    return value.map((v, i) => {
+      try {
+        return item(v);
+      } catch (error) {
+        if (!(error instanceof SchemaError)) throw error;
+        throw new SchemaError(`item ${i + 1} ${error.message}`);
+      }
+    });
+  };
+}
+
+function optional<T>(parser: Parser<T>): Parser<T | undefined> {
+  return (value) => (value === undefined ? undefined : parser(value));
+}
+
+// { token: probability } map
+function distribution(): Parser<Record<string, number>> {
+  return (value) => {
+    if (
+      typeof value !== 'object' ||
+      value === null ||
+      Array.isArray(value) ||
+      !Object.values(value).every((v) => typeof v === 'number')
+    ) {
+      throw new SchemaError('must map tokens to numbers');
+    }
+    return value as Record<string, number>;
+  };
+}
+
+/**
+ * Checks every field of an object against a schema.
+ * Fields not in the schema are dropped.
+ * @param schema - Parser per field
+ * @param value - The value to check
+ * @returns The parsed object, or an error message per failing field
+ */
+function parseObject<S extends Schema>(
+  schema: S,
+  value: unknown
+): ParseResult<Infer<S>> {
+  if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+    return { success: false, errors: { body: 'body must be a JSON object' } };
+  }
+
+  const data: Record<string, unknown> = {};
+  const errors: FieldErrors = {};
+  for (const [field, parser] of Object.entries(schema)) {
+    try {
+      const parsed = parser((value as Record<string, unknown>)[field]);
+      if (parsed !== undefined) data[field] = parsed;
+    } catch (error) {
+      if (!(error instanceof SchemaError)) throw error;
+      errors[field] = `${field} ${error.message}`;
+    }
+  }
+
+  return Object.keys(errors).length > 0
+    ? { success: false, errors }
+    : { success: true, data: data as Infer<S> };
+}
+
+// Nested object, checked field by field
+function object<S extends Schema>(schema: S): Parser<Infer<S>> {
+  return (value) => {
+    if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+      throw new SchemaError('must be an object');
+    }
+    const result = parseObject(schema, value);
+    if (!result.success) {
+      throw new SchemaError(formatFieldErrors(result.errors));
+    }
+    return result.data;
+  };
+}
+
+const chatMessageSchema = {
+  role: oneOf(CHAT_ROLES),
+  content: string({ maxLength: GENERATION_LIMITS.maxPromptLength }),
+};
+
+const generateRequestSchema = {
+  prompt: string({
+    minLength: 1,
+    maxLength: GENERATION_LIMITS.maxPromptLength,
+  }),
+  // Chat mode: earlier turns, with the prompt as the latest user message
+  history: optional(
+    array(object(chatMessageSchema), {
+      maxItems: GENERATION_LIMITS.maxChatHistory,
+    })
+  ),
+  // Chat mode: the assistant's reply so far
+  reply: optional(string({ maxLength: GENERATION_LIMITS.maxPromptLength })),
+  systemInstruction: optional(
+    string({ maxLength: GENERATION_LIMITS.maxSystemInstructionLength })
+  ),
+  maxTokens: optional(
+    number({ ...GENERATION_LIMITS.maxTokens, integer: true })
+  ),
+  temperature: optional(
+    number({ min: TEMPERATURE_CONFIG.min, max: TEMPERATURE_CONFIG.max })
+  ),
+  topP: optional(number(GENERATION_LIMITS.topP)),
+  topK: optional(number({ ...GENERATION_LIMITS.topK, integer: true })),
+  numLogprobs: optional(
+    number({ ...GENERATION_LIMITS.numLogprobs, integer: true })
+  ),
+  seed: optional(number({ min: 0, max: MAX_SEED, integer: true })),
+  stopSequences: optional(
+    array(
+      string({
+        minLength: 1,
+        maxLength: GENERATION_LIMITS.stopSequences.maxLength,
+      }),
+      GENERATION_LIMITS.stopSequences
+    )
+  ),
+  stopAtSentenceEnd: optional(boolean()),
+  provider: optional(oneOf(PROVIDER_NAMES)),
+  model: optional(string({ maxLength: GENERATION_LIMITS.maxModelLength })),
+  // Bypass the response cache
+  noCache: optional(boolean()),
+};
+
+export type GenerateRequestBody = Infer<typeof generateRequestSchema>;
+
+/**
+ * Validates a /api/generate request body.
+ */
+export function parseGenerateRequest(
+  value: unknown
+): ParseResult<GenerateRequestBody> {
+  return parseObject(generateRequestSchema, value);
+}
+
+// Position data sent with every token
+const positionSchema = {
+  logprobs: distribution(),
+  rawLogprobs: distribution(),
+  chosenLogprob: number(),
+  entropy: number({ min: 0 }),
+  residualMass: number({ min: 0, max: 1 }),
+};
+
+// Successful /api/generate response
+export type GenerateResponseBody = {
+  success: true;
+  generatedText: string;
+  finishReason: FinishReason;
+} & GenerationPositions;
+
+const tokenEventSchema = {
+  type: literal('token'),
+  token: string(),
+  ...positionSchema,
+};
+
+const doneEventSchema = {
+  type: literal('done'),
+  finishReason: oneOf(FINISH_REASONS),
+};
+
+const errorEventSchema = {
+  type: literal('error'),
+  code: oneOf(GENERATION_ERROR_CODES),
+  error: optional(string()),
+  userMessage: optional(string()),
+  details: optional(string()),
+  retryAfter: optional(number({ min: 0 })),
+};
+
+export type StreamEvent =
+  | Infer<typeof tokenEventSchema>
+  | Infer<typeof doneEventSchema>
+  | Infer<typeof errorEventSchema>;
+
+/**
+ * Validates one event from the /api/generate/stream NDJSON response.
+ */
+export function parseStreamEvent(value: unknown): ParseResult<StreamEvent> {
+  const type = (value as { type?: unknown } | null)?.type;
+  if (type === 'token') return parseObject(tokenEventSchema, value);
+  if (type === 'done') return parseObject(doneEventSchema, value);
+  if (type === 'error') return parseObject(errorEventSchema, value);
+  return {
+    success: false,
+    errors: { type: 'type must be one of: token, done, error' },
+  };
+}
+
+/**
+ * Joins field errors into one readable sentence.
+ */
+export function formatFieldErrors(errors: FieldErrors): string {
+  return Object.values(errors).join('; ');
+}
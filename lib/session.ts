@@ -0,0 +1,430 @@
+/**
+ * Wheel Sessions
+ *
+ * A session captures everything needed to put the wheel back exactly as it
+ * was - the prompt, the settings and every explored generation - so it can
+ * be restored after a refresh, exported as JSON or shared as a URL without
+ * calling the API again.
+ */
+
+import {
+  DEFAULT_SYSTEM_INSTRUCTION,
+  DEFAULT_TEMPERATURE,
+  GENERATION_LIMITS,
+  ModelSource,
+  SpinMode,
+  TEMPERATURE_CONFIG,
+} from './constants';
+import { ExplorationTree } from './exploration';
+import { GenerationPositions } from './logprobs';
+import { NgramSettings, parseNgramSettings } from './ngram';
+import { GenerationParams, parseGenerationParams } from './presets';
+import {
+  CHAT_ROLES,
+  ChatMessage,
+  FINISH_REASONS,
+  FinishReason,
+} from './providers/types';
+import { parseSamplingControls, SamplingControls } from './sampling';
+import { parseStopSettings, StopSettings } from './stopping';
+
+export const SESSION_VERSION = 1;
+
+// URL fragment key for shared sessions: /wheel#session=...
+const SESSION_FRAGMENT_KEY = 'session';
+
+export interface SessionSettings {
+  temperature: number;
+  systemInstruction: string;
+  modelSource: ModelSource;
+  ngramSettings: NgramSettings;
+  stopSettings: StopSettings;
+  generationParams: GenerationParams;
+  samplingControls: SamplingControls;
+  spinMode: SpinMode;
+  spinSeed: number;
+}
+
+export interface SavedGeneration extends GenerationPositions {
+  id: number;
+  // Absent until the generation has finished, or if it broke off
+  finishReason?: FinishReason;
+}
+
+// Exploration tree node with its generation stored by id
+export interface SessionNode {
+  parentId: number | null;
+  token: string | null;
+  generationId: number;
+  position: number;
+}
+
+export interface WheelSession {
+  version: typeof SESSION_VERSION;
+  // In chat mode, the latest user message
+  prompt: string;
+  // Chat mode: the finished turns before the prompt; absent otherwise
+  history?: ChatMessage[];
+  settings: SessionSettings;
+  generations: SavedGeneration[];
+  nodes: SessionNode[];
+  currentId: number;
+}
+
+/**
+ * Captures the wheel state as a session.
+ * Generations shared by several nodes are stored once.
+ * @param prompt - The original prompt
+ * @param settings - Settings in effect on the wheel page
+ * @param tree - The exploration tree
+ * @param history - Earlier chat turns, in chat mode
+ * @returns A serializable session
+ */
+export function createSession(
+  prompt: string,
+  settings: SessionSettings,
+  tree: ExplorationTree<SavedGeneration>,
+  history?: ChatMessage[]
+): WheelSession {
+  const generations = new Map<number, SavedGeneration>();
+  tree.nodes.forEach(({ generation }) => {
+    generations.set(generation.id, {
+      id: generation.id,
+      tokens: generation.tokens,
+      logprobsByPosition: generation.logprobsByPosition,
+      rawLogprobsByPosition: generation.rawLogprobsByPosition,
+      chosenLogprobs: generation.chosenLogprobs,
+      entropyByPosition: generation.entropyByPosition,
+      residualMassByPosition: generation.residualMassByPosition,
+      finishReason: generation.finishReason,
+    });
+  });
+
+  return {
+    version: SESSION_VERSION,
+    prompt,
+    ...(history && { history }),
+    settings,
+    generations: [...generations.values()],
+    nodes: tree.nodes.map(({ parentId, token, generation, position }) => ({
+      parentId,
+      token,
+      generationId: generation.id,
+      position,
+    })),
+    currentId: tree.currentId,
+  };
+}
+
+/**
+ * Rebuilds the exploration tree stored in a session.
+ * @param session - A validated session
+ * @returns The exploration tree, positioned at the session's current node
+ * @throws Error if a node refers to a generation the session lacks
+ */
+export function restoreSessionTree(
+  session: WheelSession
+): ExplorationTree<SavedGeneration> {
+  const generations = new Map(session.generations.map((g) => [g.id, g]));
+
+  return {
+    nodes: session.nodes.map((node, id) => {
+      const generation = generations.get(node.generationId);
+      if (!generation) {
+        throw new Error('Invalid session: missing generation');
+      }
+      return {
+        id,
+        parentId: node.parentId,
+        token: node.token,
+        generation,
+        position: node.position,
+        childIds: session.nodes
+          .map((child, childId) => (child.parentId === id ? childId : -1))
+          .filter((childId) => childId !== -1),
+      };
+    }),
+    currentId: session.currentId,
+  };
+}
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isNumberArray(value: unknown): value is number[] {
+  return Array.isArray(value) && value.every((v) => typeof v === 'number');
+}
+
+function isDistribution(value: unknown): value is Record<string, number> {
+  return (
+    isRecord(value) && Object.values(value).every((v) => typeof v === 'number')
+  );
+}
+
+function isFinishReason(value: unknown): value is FinishReason {
+  return (FINISH_REASONS as readonly unknown[]).includes(value);
+}
+
+// A whole number from 0 up to, but not including, `end`
+function isIndexBelow(value: unknown, end: number): value is number {
+  return (
+    typeof value === 'number' &&
+    Number.isInteger(value) &&
+    value >= 0 &&
+    value < end
+  );
+}
+
+/**
+ * Checks a single saved generation, including that its arrays line up.
+ */
+function parseGeneration(value: unknown): SavedGeneration {
+  if (
+    !isRecord(value) ||
+    typeof value.id !== 'number' ||
+    !Number.isInteger(value.id) ||
+    !Array.isArray(value.tokens) ||
+    !value.tokens.every((t) => typeof t === 'string')
+  ) {
+    throw new Error('Invalid session: malformed generation');
+  }
+
+  const { id, tokens, finishReason } = value;
+  const isDistributions = (d: unknown): d is Record<string, number>[] =>
+    Array.isArray(d) && d.length === tokens.length && d.every(isDistribution);
+  const isNumbers = (n: unknown): n is number[] =>
+    isNumberArray(n) && n.length === tokens.length;
+  const {
+    logprobsByPosition,
+    rawLogprobsByPosition,
+    chosenLogprobs,
+    entropyByPosition,
+    residualMassByPosition,
+  } = value;
+  if (
+    !isDistributions(logprobsByPosition) ||
+    !isDistributions(rawLogprobsByPosition) ||
+    !isNumbers(chosenLogprobs) ||
+    !isNumbers(entropyByPosition) ||
+    !isNumbers(residualMassByPosition)
+  ) {
+    throw new Error('Invalid session: generation data does not line up');
+  }
+  if (finishReason !== undefined && !isFinishReason(finishReason)) {
+    throw new Error('Invalid session: unknown finish reason');
+  }
+
+  return {
+    id,
+    tokens,
+    logprobsByPosition,
+    rawLogprobsByPosition,
+    chosenLogprobs,
+    entropyByPosition,
+    residualMassByPosition,
+    ...(isFinishReason(finishReason) && { finishReason }),
+  };
+}
+
+/**
+ * Checks the chat turns of a chat-mode session.
+ */
+function parseHistory(value: unknown): ChatMessage[] {
+  if (
+    !Array.isArray(value) ||
+    !value.every(
+      (turn) =>
+        isRecord(turn) &&
+        (CHAT_ROLES as readonly unknown[]).includes(turn.role) &&
+        typeof turn.content === 'string'
+    )
+  ) {
+    throw new Error('Invalid session: malformed chat history');
+  }
+  return value.map(({ role, content }) => ({ role, content }));
+}
+
+/**
+ * Reads settings, falling back to defaults for anything missing or out of
+ * range - the values are sent with every generation request.
+ */
+function parseSettings(value: unknown): SessionSettings {
+  const settings = isRecord(value) ? value : {};
+
+  return {
+    temperature:
+      typeof settings.temperature === 'number' &&
+      settings.temperature >= TEMPERATURE_CONFIG.min &&
+      settings.temperature <= TEMPERATURE_CONFIG.max
+        ? settings.temperature
+        : DEFAULT_TEMPERATURE,
+    systemInstruction:
+      typeof settings.systemInstruction === 'string' &&
+      settings.systemInstruction.length <=
+        GENERATION_LIMITS.maxSystemInstructionLength
+        ? settings.systemInstruction
+        : DEFAULT_SYSTEM_INSTRUCTION,
+    modelSource: settings.modelSource === 'ngram' ? 'ngram' : 'api',
+    ngramSettings: parseNgramSettings(JSON.stringify(settings.ngramSettings)),
+    stopSettings: parseStopSettings(JSON.stringify(settings.stopSettings)),
+    generationParams: parseGenerationParams(
+      JSON.stringify(settings.generationParams)
+    ),
+    samplingControls: parseSamplingControls(
+      JSON.stringify(settings.samplingControls)
+    ),
+    spinMode: settings.spinMode === 'sample' ? 'sample' : 'replay',
+    spinSeed: Number.isInteger(settings.spinSeed)
+      ? (settings.spinSeed as number)
+      : 0,
+  };
+}
+
+/**
+ * Validates a parsed session file or URL payload.
+ * @param value - Parsed JSON
+ * @returns The session
+ * @throws Error describing what is wrong with the session
+ */
+export function parseSession(value: unknown): WheelSession {
+  if (!isRecord(value) || value.version !== SESSION_VERSION) {
+    throw new Error('Invalid session: unsupported format or version');
+  }
+  if (typeof value.prompt !== 'string' || !value.prompt) {
+    throw new Error('Invalid session: missing prompt');
+  }
+  if (!Array.isArray(value.generations) || !Array.isArray(value.nodes)) {
+    throw new Error('Invalid session: missing generations or nodes');
+  }
+
+  const generations = value.generations.map(parseGeneration);
+  const lengths = new Map(generations.map((g) => [g.id, g.tokens.length]));
+
+  // Parents must come before their children, and only the root has none
+  const nodes = value.nodes.map((node: unknown, id): SessionNode => {
+    if (!isRecord(node)) {
+      throw new Error('Invalid session: malformed exploration tree');
+    }
+    const { parentId, token, generationId, position } = node;
+    const length =
+      typeof generationId === 'number' ? lengths.get(generationId) : undefined;
+    if (
+      typeof generationId !== 'number' ||
+      length === undefined ||
+      !isIndexBelow(position, length + 1)
+    ) {
+      throw new Error('Invalid session: malformed exploration tree');
+    }
+
+    if (id === 0) {
+      if (parentId !== null || token !== null) {
+        throw new Error('Invalid session: malformed exploration tree');
+      }
+      return { parentId: null, token: null, generationId, position };
+    }
+    if (!isIndexBelow(parentId, id) || typeof token !== 'string') {
+      throw new Error('Invalid session: malformed exploration tree');
+    }
+    return { parentId, token, generationId, position };
+  });
+
+  const { currentId } = value;
+  if (nodes.length === 0 || !isIndexBelow(currentId, nodes.length)) {
+    throw new Error('Invalid session: malformed exploration tree');
+  }
+
+  return {
+    version: SESSION_VERSION,
+    prompt: value.prompt,
+    ...(value.history !== undefined && {
+      history: parseHistory(value.history),
+    }),
+    settings: parseSettings(value.settings),
+    generations,
+    nodes,
+    currentId,
+  };
+}
+
+/**
+ * Encodes bytes as URL-safe base64 without padding.
+ */
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = '';
+  bytes.forEach((byte) => {
+    binary += String.fromCharCode(byte);
+  });
+  return btoa(binary)
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '');
+}
+
+/**
+ * Decodes URL-safe base64 back to bytes.
+ */
+function fromBase64Url(text: string): Uint8Array<ArrayBuffer> {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'));
+  return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+}
+
+/**
+ * Leaves out an uploaded n-gram corpus, which can be far larger than the
+ * rest of the session. The wheel does not need it to be restored.
+ */
+export function withoutCorpus(session: WheelSession): WheelSession {
+  return {
+    ...session,
+    settings: {
+      ...session.settings,
+      ngramSettings: { ...session.settings.ngramSettings, corpus: null },
+    },
+  };
+}
+
+/**
+ * Compresses a session into a URL fragment.
+ * An uploaded n-gram corpus is left out to keep links short - the shared
+ * wheel does not need it, and later spins fall back to the bundled corpus.
+ * @param session - The session to share
+ * @returns Fragment without the leading '#'
+ */
+export async function encodeSessionFragment(
+  session: WheelSession
+): Promise<string> {
+  const compressed = new Blob([JSON.stringify(withoutCorpus(session))])
+    .stream()
+    .pipeThrough(new CompressionStream('deflate-raw'));
+  const bytes = new Uint8Array(await new Response(compressed).arrayBuffer());
+
+  return `${SESSION_FRAGMENT_KEY}=${toBase64Url(bytes)}`;
+}
+
+/**
+ * Reads a session shared through the URL fragment.
+ * @param hash - location.hash, with or without the leading '#'
+ * @returns The session, or null if the fragment does not contain one
+ * @throws Error if the fragment contains a session that cannot be read
+ */
+export async function decodeSessionFragment(
+  hash: string
+): Promise<WheelSession | null> {
+  const encoded = new URLSearchParams(hash.replace(/^#/, '')).get(
+    SESSION_FRAGMENT_KEY
+  );
+  if (!encoded) return null;
+
+  try {
+    const decompressed = new Blob([fromBase64Url(encoded)])
+      .stream()
+      .pipeThrough(new DecompressionStream('deflate-raw'));
+    const text = await new Response(decompressed).text();
+    return parseSession(JSON.parse(text));
+  } catch (err) {
+    if (err instanceof Error && err.message.startsWith('Invalid session')) {
+      throw err;
+    }
+    throw new Error('Invalid session: the shared link is damaged');
+  }
+}
@@ -0,0 +1,180 @@
+/**
+ * Stop Conditions
+ *
+ * Besides the token limit, a generation can end at a stop sequence or at
+ * the end of its first sentence. The checks run on the generated tokens
+ * themselves - on the server for API generations and in the browser for
+ * the n-gram model - so every source stops in the same place and the
+ * reason can be reported precisely.
+ */
+
+import { DEFAULT_MAX_TOKENS, GENERATION_LIMITS } from './constants';
+import { FinishReason } from './providers/types';
+
+export interface StopSettings {
+  maxTokens: number;
+  // Generation ends before the token any of these starts in
+  stopSequences: string[];
+  // Generation ends after the first token that finishes a sentence
+  stopAtSentenceEnd: boolean;
+}
+
+export const DEFAULT_STOP_SETTINGS: StopSettings = {
+  maxTokens: DEFAULT_MAX_TOKENS,
+  stopSequences: [],
+  stopAtSentenceEnd: false,
+};
+
+/**
+ * Parses stop settings saved in localStorage, falling back to defaults.
+ * @param saved - The stored JSON string, if any
+ * @returns Valid stop settings
+ */
+export function parseStopSettings(saved: string | null): StopSettings {
+  if (!saved) return DEFAULT_STOP_SETTINGS;
+  try {
+    const parsed = JSON.parse(saved);
+    const { min, max } = GENERATION_LIMITS.maxTokens;
+    const { maxItems, maxLength } = GENERATION_LIMITS.stopSequences;
+    return {
+      maxTokens:
+        Number.isInteger(parsed.maxTokens) &&
+        parsed.maxTokens >= min &&
+        parsed.maxTokens <= max
+          ? parsed.maxTokens
+          : DEFAULT_STOP_SETTINGS.maxTokens,
+      stopSequences: Array.isArray(parsed.stopSequences)
+        ? parsed.stopSequences
+            .filter(
+              (s: unknown) =>
+                typeof s === 'string' && s.length > 0 && s.length <= maxLength
+            )
+            .slice(0, maxItems)
+        : DEFAULT_STOP_SETTINGS.stopSequences,
+      stopAtSentenceEnd: parsed.stopAtSentenceEnd === true,
+    };
+  } catch {
+    return DEFAULT_STOP_SETTINGS;
+  }
+}
+
+// Sentence-ending punctuation, optionally closed by quotes or brackets
+const SENTENCE_END = /[.!?]["'”’)\]]*\s*$/;
+
+/**
+ * Finds where the earliest stop sequence starts in the text.
+ * @returns The index, or -1 if no stop sequence occurs
+ */
+function findStopSequence(text: string, stopSequences: string[]): number {
+  return stopSequences.reduce((earliest, sequence) => {
+    const index = text.indexOf(sequence);
+    return index !== -1 && (earliest === -1 || index < earliest)
+      ? index
+      : earliest;
+  }, -1);
+}
+
+/**
+ * Finds where the text starts to spell out a stop sequence that the next
+ * tokens could complete.
+ * @returns The index, or the text length if the text ends with no partial
+ *   stop sequence
+ */
+function findPartialStopSequence(text: string, stopSequences: string[]) {
+  const longest = Math.max(0, ...stopSequences.map((s) => s.length));
+  for (let i = Math.max(0, text.length - longest + 1); i < text.length; i++) {
+    const tail = text.slice(i);
+    if (stopSequences.some((s) => s.startsWith(tail))) return i;
+  }
+  return text.length;
+}
+
+export type StopConditions = Partial<
+  Pick<StopSettings, 'stopSequences' | 'stopAtSentenceEnd'>
+>;
+
+/**
+ * Checks generated tokens against the stop conditions as they arrive.
+ * Tokens that could be the start of a stop sequence are held back until
+ * the tokens after them show whether they are.
+ * @param conditions - Stop sequences and whether to stop at sentence end
+ */
+export function createStopChecker<T extends { token: string }>({
+  stopSequences = [],
+  stopAtSentenceEnd = false,
+}: StopConditions) {
+  const sequences = stopSequences.filter((s) => s.length > 0);
+  const held: T[] = [];
+  // Text of the tokens released so far
+  let released = '';
+
+  // Releases the held tokens that end at or before an index in the
+  // generated text, stopping early at the end of a sentence
+  const releaseUntil = (
+    index: number
+  ): { release: T[]; stop?: FinishReason } => {
+    const release: T[] = [];
+    while (held.length > 0 && released.length + held[0].token.length <= index) {
+      const chunk = held.shift()!;
+      release.push(chunk);
+      released += chunk.token;
+      if (stopAtSentenceEnd && SENTENCE_END.test(released)) {
+        return { release, stop: 'sentence-end' };
+      }
+    }
+    return { release };
+  };
+
+  return {
+    /**
+     * Adds the next generated token.
+     * @returns Tokens that are now safe to emit, and the reason to stop
+     *   generating, if any
+     */
+    push(chunk: T): { release: T[]; stop?: FinishReason } {
+      held.push(chunk);
+      const text = released + held.map((c) => c.token).join('');
+
+      // Drop the token the stop sequence starts in, and everything after
+      const match = findStopSequence(text, sequences);
+      if (match !== -1) {
+        const { release, stop } = releaseUntil(match);
+        return { release, stop: stop ?? 'stop-sequence' };
+      }
+
+      return releaseUntil(findPartialStopSequence(text, sequences));
+    },
+
+    /**
+     * Releases the tokens still held back once generation has ended.
+     */
+    flush(): { release: T[]; stop?: FinishReason } {
+      return releaseUntil(Infinity);
+    },
+  };
+}
+
+/**
+ * Applies the stop conditions to a finished list of tokens.
+ * @param chunks - Generated tokens, in order
+ * @param conditions - Stop sequences and whether to stop at sentence end
+ * @param finishReason - Why generation ended before the stop conditions
+ * @returns The tokens up to the first stop, and why generation ended
+ */
+export function applyStopConditions<T extends { token: string }>(
+  chunks: T[],
+  conditions: StopConditions,
+  finishReason: FinishReason
+): { chunks: T[]; finishReason: FinishReason } {
+  const checker = createStopChecker<T>(conditions);
+  const kept: T[] = [];
+  for (const chunk of chunks) {
+    const { release, stop } = checker.push(chunk);
+    kept.push(...release);
+    if (stop) return { chunks: kept, finishReason: stop };
+  }
+
+  const { release, stop } = checker.flush();
+  kept.push(...release);
+  return { chunks: kept, finishReason: stop ?? finishReason };
+}
@@ -6,7 +6,13 @@
  * We simply concatenate tokens directly.
  */
 
-import { WEDGE_COLORS } from './constants';
+import { RESIDUAL_WEDGE_COLOR, WEDGE_COLORS } from './constants';
+
+/**
+ * Placeholder token for the grey "everything else" wedge that stands for
+ * the probability mass outside the top candidates. It can't be selected.
+ */
+export const RESIDUAL_TOKEN = '\u0000residual';
 
 /**
  * Appends a token to context.
@@ -42,6 +48,8 @@ export function stitchTokens(
  * @returns Display-friendly version
  */
 export function formatTokenForDisplay(token: string): string {
+  if (token === RESIDUAL_TOKEN) return 'other';
+
   // Handle special tokens
   if (token === '\n') return '↵';
   if (token === '\t') return '→';
@@ -58,6 +66,19 @@ export function formatTokenForDisplay(token: string): string {
   return trimmed;
 }
 
+/**
+ * Describe a token for screen readers, spelling out the whitespace that
+ * formatTokenForDisplay shows as symbols
+ */
+export function formatTokenForSpeech(token: string): string {
+  if (token === RESIDUAL_TOKEN) return 'everything else';
+  if (token === '\n') return 'new line';
+  if (token === '\t') return 'tab';
+
+  const trimmed = token.trim();
+  return trimmed === '' ? 'space' : trimmed;
+}
+
 /**
  * Wedge data structure for wheel segments
  */
@@ -82,25 +103,55 @@ function shuffleArray<T>(array: T[]): T[] {
   return shuffled;
 }
 
+/**
+ * Randomly assigns a wedge color to each token.
+ * Used to keep colors stable while a distribution is re-shaped.
+ * @param tokens - Tokens ordered by probability (highest first)
+ * @returns Object mapping each token to a color
+ */
+export function assignWedgeColors(tokens: string[]): Record<string, string> {
+  const shuffledColors = shuffleArray(WEDGE_COLORS);
+  const colors: Record<string, string> = {};
+  tokens.forEach((token, index) => {
+    colors[token] = shuffledColors[index % shuffledColors.length];
+  });
+  return colors;
+}
+
 /**
  * Converts logprobs object to wheel wedge data with angles.
  * @param logprobs - Object with token keys and probability values
+ * @param colors - Optional fixed colors by token (random otherwise)
+ * @param residualMass - Optional mass outside the top candidates, drawn as
+ *   a final grey wedge with the other wedges scaled down to make room
  * @returns Array of wedge data sorted by probability (highest first)
  */
 export function convertLogprobsToWedges(
-  logprobs: Record<string, number>
+  logprobs: Record<string, number>,
+  colors?: Record<string, string>,
+  residualMass: number = 0
 ): WedgeData[] {
   // Sort by probability (highest first)
   const sorted = Object.entries(logprobs)
-    .map(([token, probability]) => ({ token, probability }))
+    .map(([token, probability]) => ({
+      token,
+      probability: probability * (1 - residualMass),
+    }))
     .sort((a, b) => b.probability - a.probability);
 
-  // Shuffle colors for random assignment
-  const shuffledColors = shuffleArray(WEDGE_COLORS);
+  // Use fixed colors if given, otherwise shuffle for random assignment
+  const tokenColors: Record<string, string> = {
+    ...(colors ?? assignWedgeColors(sorted.map(({ token }) => token))),
+    [RESIDUAL_TOKEN]: RESIDUAL_WEDGE_COLOR,
+  };
+
+  if (residualMass > 0) {
+    sorted.push({ token: RESIDUAL_TOKEN, probability: residualMass });
+  }
 
   // Calculate angles
   let currentAngle = 0;
-  return sorted.map(({ token, probability }, index) => {
+  return sorted.map(({ token, probability }) => {
     const angle = probability * 360;
     const startAngle = currentAngle;
     const endAngle = currentAngle + angle;
@@ -112,11 +163,32 @@ export function convertLogprobsToWedges(
       angle,
       startAngle,
       endAngle,
-      color: shuffledColors[index % shuffledColors.length],
+      color: tokenColors[token] ?? WEDGE_COLORS[0],
     };
   });
 }
 
+/**
+ * Draws a wedge at random, weighted by its probability.
+ * The residual wedge is never drawn since it has no concrete token.
+ * @param wedges - Wheel wedges
+ * @param random - Random source returning floats in [0, 1)
+ * @returns The drawn wedge
+ */
+export function sampleWedge(
+  wedges: WedgeData[],
+  random: () => number = Math.random
+): WedgeData {
+  const tokenWedges = wedges.filter((w) => w.token !== RESIDUAL_TOKEN);
+  const total = tokenWedges.reduce((sum, w) => sum + w.probability, 0);
+  let threshold = random() * total;
+  for (const wedge of tokenWedges) {
+    threshold -= wedge.probability;
+    if (threshold < 0) return wedge;
+  }
+  return tokenWedges[tokenWedges.length - 1];
+}
+
 /**
  * Creates an SVG arc path for a wheel wedge
  * Handles the special case of near-360-degree wedges (100% probability)
@@ -157,11 +229,14 @@ export function createWedgePath(
  * Calculates the rotation needed to land on a specific wedge
  * The pointer is at the TOP (0 degrees), so we need to rotate the wheel
  * so that the target wedge's center aligns with the top.
+ * @param rotations - Full turns to make first: at least `min`, plus up to
+ *   `extra` more at random
  */
 export function calculateTargetRotation(
   wedges: WedgeData[],
   targetToken: string,
-  currentRotation: number
+  currentRotation: number,
+  rotations: { min: number; extra: number } = { min: 10, extra: 2 }
 ): number {
   const targetWedge = wedges.find((w) => w.token === targetToken);
   if (!targetWedge) {
@@ -184,10 +259,10 @@ export function calculateTargetRotation(
     rotationDelta += 360;
   }
 
-  // Add multiple full rotations for dramatic spin effect (10-13 rotations like v1)
-  const minSpins = 10;
-  const randomExtraSpins = Math.floor(Math.random() * 3); // 0-2 extra spins
-  const totalRotation = 360 * (minSpins + randomExtraSpins) + rotationDelta;
+  // Add multiple full rotations for dramatic spin effect
+  const randomExtraSpins = Math.floor(Math.random() * (rotations.extra + 1));
+  const totalRotation =
+    360 * (rotations.min + randomExtraSpins) + rotationDelta;
 
   return currentRotation + totalRotation;
 }
@@ -0,0 +1,66 @@
+import { DEFAULT_MAX_TOKENS } from './constants';
+import {
+  canContinueReply,
+  GenerationOptions,
+  isModelAllowed,
+  isProviderAllowed,
+} from './generation';
+import { FieldErrors, formatFieldErrors, parseGenerateRequest } from './schema';
+
+export type GenerationRequestValidation =
+  | {
+      options: GenerationOptions;
+      noCache: boolean;
+      error?: undefined;
+      fieldErrors?: undefined;
+    }
+  | {
+      error: string;
+      fieldErrors: FieldErrors;
+      options?: undefined;
+      noCache?: undefined;
+    };
+
+/**
+ * Validates a /api/generate request body and maps it to generation options.
+ * @param body - The parsed JSON body
+ * @returns The generation options and cache bypass flag, or an error
+ *   message per invalid field for a 400 response
+ */
+export function validateGenerationRequest(
+  body: unknown
+): GenerationRequestValidation {
+  const result = parseGenerateRequest(body);
+  if (!result.success) {
+    return {
+      error: `Invalid request: ${formatFieldErrors(result.errors)}`,
+      fieldErrors: result.errors,
+    };
+  }
+
+  // Only the backends the server offers may be picked per request
+  const { provider, model, reply } = result.data;
+  const fieldErrors: FieldErrors = {};
+  if (provider && !isProviderAllowed(provider)) {
+    fieldErrors.provider = 'provider is not available on this server';
+  } else if (reply && !canContinueReply(provider)) {
+    fieldErrors.reply =
+      'this provider cannot continue a partial reply in chat mode';
+  }
+  if (model && !isModelAllowed(model)) {
+    fieldErrors.model = 'model is not available on this server';
+  }
+  if (Object.keys(fieldErrors).length > 0) {
+    return {
+      error: `Invalid request: ${formatFieldErrors(fieldErrors)}`,
+      fieldErrors,
+    };
+  }
+
+  const {
+    noCache = false,
+    maxTokens = DEFAULT_MAX_TOKENS,
+    ...options
+  } = result.data;
+  return { noCache, options: { ...options, maxTokens } };
+}
@@ -0,0 +1,140 @@
+/**
+ * Wheel Animation
+ *
+ * How the wheel spins: how long, with which easing, how many turns, and how
+ * long the result stays up. The default easing is a CSS curve; the friction
+ * model instead simulates a wheel slowing down under constant friction,
+ * with the pointer ticking over every wedge boundary it passes. Reduced
+ * motion skips the spin altogether, following the system setting unless
+ * overridden.
+ */
+
+export type SpinEasing = 'smooth' | 'gentle' | 'dramatic';
+
+export const SPIN_EASINGS: Record<SpinEasing, { label: string; css: string }> =
+  {
+    smooth: { label: 'Smooth', css: 'cubic-bezier(0.15, 0.5, 0.2, 1)' },
+    gentle: { label: 'Gentle', css: 'cubic-bezier(0.25, 0.1, 0.25, 1)' },
+    dramatic: { label: 'Dramatic', css: 'cubic-bezier(0.05, 0.9, 0.1, 1)' },
+  };
+
+// 'easing' animates with a CSS curve, 'friction' simulates the deceleration
+export type SpinPhysics = 'easing' | 'friction';
+
+// 'system' follows prefers-reduced-motion
+export type MotionPreference = 'system' | 'full' | 'reduced';
+
+export interface WheelAnimationSettings {
+  spinDurationMs: number;
+  easing: SpinEasing;
+  physics: SpinPhysics;
+  // Full turns before landing, plus up to `extraRotations` more at random
+  minRotations: number;
+  extraRotations: number;
+  // How long the result stays up before it is taken
+  resultDelayMs: number;
+  motion: MotionPreference;
+}
+
+export const DEFAULT_WHEEL_ANIMATION: WheelAnimationSettings = {
+  spinDurationMs: 4000,
+  easing: 'smooth',
+  physics: 'easing',
+  minRotations: 10,
+  extraRotations: 2,
+  resultDelayMs: 3500,
+  motion: 'system',
+};
+
+export const WHEEL_ANIMATION_LIMITS = {
+  spinDurationMs: { min: 500, max: 10_000, step: 250 },
+  minRotations: { min: 1, max: 20 },
+  extraRotations: { min: 0, max: 5 },
+  resultDelayMs: { min: 500, max: 10_000, step: 250 },
+} as const;
+
+function isIntegerBetween(
+  value: unknown,
+  { min, max }: { min: number; max: number }
+): value is number {
+  return (
+    Number.isInteger(value) &&
+    (value as number) >= min &&
+    (value as number) <= max
+  );
+}
+
+/**
+ * Parses wheel animation settings saved in localStorage, falling back to
+ * defaults.
+ * @param saved - The stored JSON string, if any
+ * @returns Valid wheel animation settings
+ */
+export function parseWheelAnimation(
+  saved: string | null
+): WheelAnimationSettings {
+  if (!saved) return DEFAULT_WHEEL_ANIMATION;
+  try {
+    const parsed = JSON.parse(saved);
+    const pick = <K extends keyof WheelAnimationSettings>(
+      key: K,
+      isValid: (value: unknown) => boolean
+    ): WheelAnimationSettings[K] =>
+      isValid(parsed[key]) ? parsed[key] : DEFAULT_WHEEL_ANIMATION[key];
+
+    return {
+      spinDurationMs: pick('spinDurationMs', (v) =>
+        isIntegerBetween(v, WHEEL_ANIMATION_LIMITS.spinDurationMs)
+      ),
+      easing: pick('easing', (v) => Object.hasOwn(SPIN_EASINGS, v as string)),
+      physics: pick('physics', (v) => v === 'easing' || v === 'friction'),
+      minRotations: pick('minRotations', (v) =>
+        isIntegerBetween(v, WHEEL_ANIMATION_LIMITS.minRotations)
+      ),
+      extraRotations: pick('extraRotations', (v) =>
+        isIntegerBetween(v, WHEEL_ANIMATION_LIMITS.extraRotations)
+      ),
+      resultDelayMs: pick('resultDelayMs', (v) =>
+        isIntegerBetween(v, WHEEL_ANIMATION_LIMITS.resultDelayMs)
+      ),
+      motion: pick('motion', (v) =>
+        ['system', 'full', 'reduced'].includes(v as string)
+      ),
+    };
+  } catch {
+    return DEFAULT_WHEEL_ANIMATION;
+  }
+}
+
+/**
+ * How far a wheel slowing down under constant friction has turned.
+ * @param progress - Elapsed fraction of the spin, from 0 to 1
+ * @returns Fraction of the total rotation covered, from 0 to 1
+ */
+export function frictionProgress(progress: number): number {
+  const t = Math.min(Math.max(progress, 0), 1);
+  // Velocity falls linearly to zero, so distance is an inverted parabola
+  return 1 - (1 - t) ** 2;
+}
+
+/**
+ * Counts the wedge boundaries that passed the pointer while the wheel
+ * turned from one rotation to another.
+ * @param boundaries - Angles of the wedge boundaries, in wheel degrees
+ * @param from - Rotation before, in degrees
+ * @param to - Rotation after, in degrees; at least `from`
+ * @returns The number of boundaries crossed
+ */
+export function countBoundaryCrossings(
+  boundaries: number[],
+  from: number,
+  to: number
+): number {
+  // Turning the wheel clockwise by r puts angle -r under the pointer, so a
+  // boundary b passes whenever b + 360k lands in (-to, -from]
+  return boundaries.reduce(
+    (count, b) =>
+      count + Math.floor((b + to) / 360) - Math.floor((b + from) / 360),
+    0
+  );
+}